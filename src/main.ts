@@ -5,8 +5,23 @@
 
 import { Editor, MarkdownView, Notice, Plugin, requireApiVersion, TFile, WorkspaceLeaf } from 'obsidian';
 import { DEFAULT_SETTINGS, ImageManagerSettings, ImageManagerSettingTab } from './settings';
+import { RoutingRule } from './types';
+import { isValidDuplicatePattern } from './utils/template';
 import { StorageManager } from './services/StorageManager';
 import { ImageProcessor } from './services/ImageProcessor';
+import { ImageOptimizer } from './services/ImageOptimizer';
+import { MetadataScrubber } from './services/MetadataScrubber';
+import { ImageHashIndex } from './services/ImageHashIndex';
+import { ReferenceService } from './services/ReferenceService';
+import { OperationHistory } from './services/OperationHistory';
+import { TempFileSweeper } from './services/TempFileSweeper';
+import { AttachmentMover } from './services/AttachmentMover';
+import { ImageRenamer } from './services/ImageRenamer';
+import { AnnotationService } from './services/AnnotationService';
+import { ResponsiveImageService } from './services/ResponsiveImageService';
+import { SimilarImageService } from './services/SimilarImageService';
+import { OrphanImageService } from './services/OrphanImageService';
+import { BrokenLinkService } from './services/BrokenLinkService';
 import { PropertyHandler } from './services/PropertyHandler';
 import { PasteHandler, DropHandler } from './services/PasteHandler';
 import { RemoteImageService } from './services/RemoteImageService';
@@ -14,12 +29,36 @@ import { LocalConversionService } from './services/LocalConversionService';
 import { BannerService } from './services/BannerService';
 import { openFilePicker } from './modals/FilePickerModal';
 import { openRemoteSearch } from './modals/RemoteSearchModal';
+import { openSimilarImagesModal } from './modals/SimilarImagesModal';
+import { openOrphanImagesModal } from './modals/OrphanImagesModal';
+import { openBrokenLinksModal } from './modals/BrokenLinksModal';
+
+/**
+ * Duplicate number settings replaced by dupNamePattern
+ */
+interface LegacyDuplicateNumbering {
+	dupNumberDelimiter?: string;
+	dupNumberAtStart?: boolean;
+}
 
 export default class ImageManagerPlugin extends Plugin {
 	settings: ImageManagerSettings;
 
 	// Services
 	private storageManager: StorageManager;
+	private imageOptimizer: ImageOptimizer;
+	private metadataScrubber: MetadataScrubber;
+	private imageHashIndex: ImageHashIndex;
+	private referenceService: ReferenceService;
+	private operationHistory: OperationHistory;
+	private tempFileSweeper: TempFileSweeper;
+	private imageRenamer: ImageRenamer;
+	private attachmentMover: AttachmentMover;
+	private annotationService: AnnotationService;
+	private responsiveImageService: ResponsiveImageService;
+	private similarImageService: SimilarImageService;
+	private orphanImageService: OrphanImageService;
+	private brokenLinkService: BrokenLinkService;
 	private imageProcessor: ImageProcessor;
 	private propertyHandler: PropertyHandler;
 	private pasteHandler: PasteHandler;
@@ -111,7 +150,29 @@ export default class ImageManagerPlugin extends Plugin {
 	private initializeServices(): void {
 		this.storageManager = new StorageManager(this.app, this.settings);
 		this.remoteService = new RemoteImageService(this.app, this.settings);
-		this.imageProcessor = new ImageProcessor(this.app, this.settings, this.storageManager);
+		this.imageOptimizer = new ImageOptimizer(this.app, this.settings, this.storageManager);
+		this.metadataScrubber = new MetadataScrubber(this.app, this.settings, this.storageManager);
+		const pluginDir = this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.imageHashIndex = new ImageHashIndex(this.app, this.settings, this.storageManager, `${pluginDir}/image-hashes.json`);
+		this.referenceService = new ReferenceService(this.app, this.settings);
+		this.operationHistory = new OperationHistory(this.app, this.settings, this.referenceService);
+		this.tempFileSweeper = new TempFileSweeper(this.app, this.settings, this.storageManager, this.referenceService);
+		this.imageRenamer = new ImageRenamer(this.app, this.settings, this.storageManager, this.referenceService);
+		this.attachmentMover = new AttachmentMover(this.app, this.settings, this.storageManager, this.referenceService, this.imageRenamer);
+		this.annotationService = new AnnotationService(this.app, this.settings, this.storageManager);
+		this.responsiveImageService = new ResponsiveImageService(this.app, this.settings, this.storageManager);
+		this.imageProcessor = new ImageProcessor(
+			this.app,
+			this.settings,
+			this.storageManager,
+			this.imageOptimizer,
+			this.metadataScrubber,
+			this.imageHashIndex,
+			this.operationHistory,
+			this.annotationService,
+			this.responsiveImageService,
+			() => this.saveSettings()
+		);
 		this.propertyHandler = new PropertyHandler(this.app, this.settings, this.storageManager, this.imageProcessor, this.remoteService);
 		this.pasteHandler = new PasteHandler(
 			this.app,
@@ -122,6 +183,22 @@ export default class ImageManagerPlugin extends Plugin {
 		this.dropHandler = new DropHandler(this.app, this.settings, this.imageProcessor);
 		this.conversionService = new LocalConversionService(this.app, this.settings, this.storageManager, this.imageProcessor);
 		this.bannerService = new BannerService(this.app, this.settings);
+		this.similarImageService = new SimilarImageService(this.app, this.settings, this.storageManager, this.referenceService);
+		this.orphanImageService = new OrphanImageService(
+			this.app,
+			this.settings,
+			this.storageManager,
+			this.referenceService,
+			this.responsiveImageService,
+			() => this.saveSettings()
+		);
+		this.brokenLinkService = new BrokenLinkService(
+			this.app,
+			this.settings,
+			this.storageManager,
+			this.referenceService,
+			this.imageHashIndex
+		);
 	}
 
 	/**
@@ -142,6 +219,10 @@ export default class ImageManagerPlugin extends Plugin {
 			})
 		);
 
+		// Track modifier keys so Shift+paste can keep a plain URL
+		this.registerDomEvent(document, 'keydown', (evt: KeyboardEvent) => this.pasteHandler.handleKeyEvent(evt));
+		this.registerDomEvent(document, 'keyup', (evt: KeyboardEvent) => this.pasteHandler.handleKeyEvent(evt));
+
 		// DOM paste handler for frontmatter properties
 		// Use capture phase but be defensive - only handle if we're definitely in a property field
 		this.registerDomEvent(document, 'paste', (evt: ClipboardEvent) => {
@@ -253,6 +334,28 @@ export default class ImageManagerPlugin extends Plugin {
 		// Apply banner settings when layout is ready
 		this.app.workspace.onLayoutReady(() => {
 			this.bannerService.applySettings();
+
+			// Keep the image hash index current (registered after layout ready to skip
+			// the create events fired while the vault loads)
+			this.registerEvent(this.app.vault.on('create', (file) => this.imageHashIndex.handleChange(file)));
+			this.registerEvent(this.app.vault.on('modify', (file) => this.imageHashIndex.handleChange(file)));
+			this.registerEvent(this.app.vault.on('delete', (file) => this.imageHashIndex.handleDelete(file)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.imageHashIndex.handleRename(file, oldPath)));
+
+			// Keep annotation sidecars and originals next to their image
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => { void this.annotationService.handleRename(file, oldPath); }));
+			this.registerEvent(this.app.vault.on('delete', (file) => { void this.annotationService.handleDelete(file); }));
+
+			// Move a note's own images along with it, and rename them after it
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.attachmentMover.handleRename(file, oldPath)));
+
+			if (this.imageHashIndex.isEnabled()) {
+				void this.imageHashIndex.initialize();
+			}
+
+			if (this.settings.sweepTempFiles) {
+				void this.tempFileSweeper.sweep();
+			}
 		});
 	}
 
@@ -389,6 +492,114 @@ export default class ImageManagerPlugin extends Plugin {
 				new Notice(`Converted ${count} remote image(s) to local`);
 			},
 		});
+
+		// Crop, rotate or flip the open image or the image link under the cursor
+		this.addCommand({
+			id: 'edit-image',
+			name: 'Edit image',
+			checkCallback: (checking: boolean) => {
+				const file = this.getImageToEdit();
+				if (!file) {
+					return false;
+				}
+				if (!checking) {
+					void this.imageProcessor.editImageFile(file);
+				}
+				return true;
+			},
+		});
+
+		// Annotate the open image or the image link under the cursor
+		this.addCommand({
+			id: 'annotate-image',
+			name: 'Annotate image',
+			checkCallback: (checking: boolean) => {
+				const file = this.getImageToEdit();
+				if (!file || !this.annotationService.canAnnotate(file)) {
+					return false;
+				}
+				if (!checking) {
+					void this.annotationService.annotate(file);
+				}
+				return true;
+			},
+		});
+
+		// Undo the last insertion (file and note edit together)
+		this.addCommand({
+			id: 'undo-last-image-operation',
+			name: 'Undo last image operation',
+			callback: async () => {
+				await this.operationHistory.undoLast();
+			},
+		});
+
+		// Re-apply the name template to the active note's own images
+		this.addCommand({
+			id: 'rename-note-images',
+			name: 'Rename images to match note name',
+			checkCallback: (checking: boolean) => {
+				const note = this.app.workspace.getActiveFile();
+				if (!note || (note.extension !== 'md' && !this.settings.supportedExtensions.includes(note.extension))) {
+					return false;
+				}
+				if (!checking) {
+					void this.imageRenamer.renameImages(note);
+				}
+				return true;
+			},
+		});
+
+		// Review visually similar images
+		this.addCommand({
+			id: 'find-similar-images',
+			name: 'Find similar images',
+			callback: () => {
+				openSimilarImagesModal(this.app, this.similarImageService, this.referenceService);
+			},
+		});
+
+		// Review images no note references
+		this.addCommand({
+			id: 'find-orphaned-images',
+			name: 'Find orphaned images',
+			callback: () => {
+				openOrphanImagesModal(this.app, this.orphanImageService);
+			},
+		});
+
+		// Find and repair image links that no longer resolve
+		this.addCommand({
+			id: 'find-broken-image-links',
+			name: 'Find broken image links',
+			callback: () => {
+				openBrokenLinksModal(this.app, this.brokenLinkService);
+			},
+		});
+
+		// Strip metadata from all images in the vault
+		this.addCommand({
+			id: 'strip-metadata-all-images',
+			name: 'Strip metadata from all images',
+			callback: async () => {
+				const { openConfirmModal } = await import('./modals/ConfirmModal');
+				const result = await openConfirmModal(
+					this.app,
+					'Strip Image Metadata',
+					'This will remove EXIF, XMP and IPTC metadata (GPS location, camera details, etc.) from every JPEG, PNG and WebP image in your vault. Fields kept in the privacy settings are preserved. This action cannot be undone.\n\nAre you sure you want to proceed?',
+					'Yes, strip metadata',
+					'Cancel'
+				);
+
+				if (!result.confirmed) {
+					return;
+				}
+
+				new Notice('Stripping image metadata... This may take a while.');
+				const count = await this.metadataScrubber.scrubAllImages();
+				new Notice(`Stripped metadata from ${count} image(s)`);
+			},
+		});
 	}
 
 	/**
@@ -397,6 +608,35 @@ export default class ImageManagerPlugin extends Plugin {
 	async loadSettings(): Promise<void> {
 		const data = await this.loadData() as Partial<ImageManagerSettings> | null;
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, data ?? {});
+
+		if (this.migrateDuplicateNumbering(data)) {
+			await this.saveData(this.settings);
+			this.log('Migrated duplicate number settings to a duplicate name pattern');
+		}
+	}
+
+	/**
+	 * Replace the duplicate number delimiter and position settings with the equivalent duplicate name pattern
+	 * Returns true if the settings changed
+	 */
+	private migrateDuplicateNumbering(data: (Partial<ImageManagerSettings> & LegacyDuplicateNumbering) | null): boolean {
+		if (!data || (data.dupNumberDelimiter === undefined && data.dupNumberAtStart === undefined)) {
+			return false;
+		}
+
+		if (data.dupNamePattern === undefined) {
+			const delimiter = data.dupNumberDelimiter ?? '-';
+			const pattern = data.dupNumberAtStart ? `{{n}}${delimiter}{{name}}` : `{{name}}${delimiter}{{n}}`;
+			// A delimiter with characters file names can't have keeps the default pattern
+			if (isValidDuplicatePattern(pattern)) {
+				this.settings.dupNamePattern = pattern;
+			}
+		}
+
+		const settings = this.settings as ImageManagerSettings & LegacyDuplicateNumbering;
+		delete settings.dupNumberDelimiter;
+		delete settings.dupNumberAtStart;
+		return true;
 	}
 
 	/**
@@ -407,6 +647,19 @@ export default class ImageManagerPlugin extends Plugin {
 
 		// Update services with new settings
 		this.storageManager?.updateSettings(this.settings);
+		this.imageOptimizer?.updateSettings(this.settings);
+		this.metadataScrubber?.updateSettings(this.settings);
+		this.imageHashIndex?.updateSettings(this.settings);
+		this.referenceService?.updateSettings(this.settings);
+		this.operationHistory?.updateSettings(this.settings);
+		this.tempFileSweeper?.updateSettings(this.settings);
+		this.imageRenamer?.updateSettings(this.settings);
+		this.attachmentMover?.updateSettings(this.settings);
+		this.annotationService?.updateSettings(this.settings);
+		this.responsiveImageService?.updateSettings(this.settings);
+		this.similarImageService?.updateSettings(this.settings);
+		this.orphanImageService?.updateSettings(this.settings);
+		this.brokenLinkService?.updateSettings(this.settings);
 		this.imageProcessor?.updateSettings(this.settings);
 		this.propertyHandler?.updateSettings(this.settings);
 		this.pasteHandler?.updateSettings(this.settings);
@@ -419,6 +672,50 @@ export default class ImageManagerPlugin extends Plugin {
 		this.bannerService?.applySettings();
 	}
 
+	/**
+	 * Get the image shown in the active view, or the image linked at the editor cursor
+	 */
+	private getImageToEdit(): TFile | null {
+		const activeFile = this.app.workspace.getActiveFile();
+		if (activeFile && this.storageManager.isImageFile(activeFile)) {
+			return activeFile;
+		}
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		if (!view?.file) {
+			return null;
+		}
+
+		const editor = view.editor;
+		const cursor = editor.getCursor();
+		const line = editor.getLine(cursor.line);
+
+		// Prefer the link the cursor is in (including its brackets), otherwise the first image link on the line
+		let fallback: TFile | null = null;
+		for (const reference of this.referenceService.extractReferences(line)) {
+			const file = this.referenceService.resolveReference(reference.linkPath, view.file.path);
+			if (!file || !this.storageManager.isImageFile(file)) {
+				continue;
+			}
+			if (cursor.ch >= reference.start - 3 && cursor.ch <= reference.end + 2) {
+				return file;
+			}
+			fallback = fallback ?? file;
+		}
+		return fallback;
+	}
+
+	/**
+	 * Get the routing rule that applies to a note, and the folder a pasted PNG image would be saved in
+	 * Used by the settings tab to show which rule matched
+	 */
+	async getAttachmentRouting(note: TFile): Promise<{ rule: RoutingRule | null; folder: string }> {
+		return {
+			rule: await this.storageManager.findRoutingRule(note, 'png'),
+			folder: await this.storageManager.getAttachmentFolder(note, 'png'),
+		};
+	}
+
 	/**
 	 * Debug logging
 	 */
@@ -0,0 +1,290 @@
+/**
+ * Annotation Editor Modal
+ * Draw arrows, boxes, text labels, highlights and privacy blurs over an image
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { Annotation, AnnotationTool } from '../types';
+import { decodeImage, getContext2d } from '../utils/image-canvas';
+import { drawAnnotations } from '../utils/annotations';
+
+export interface AnnotationEditResult {
+	annotations: Annotation[];
+	cancelled: boolean;
+}
+
+const TOOL_LABELS: Record<AnnotationTool, string> = {
+	[AnnotationTool.Arrow]: 'Arrow',
+	[AnnotationTool.Rectangle]: 'Rectangle',
+	[AnnotationTool.Text]: 'Text',
+	[AnnotationTool.Highlight]: 'Highlight',
+	[AnnotationTool.Blur]: 'Blur',
+};
+
+const DEFAULT_COLOR = '#e03131';
+
+// Drags shorter than this (in image pixels) are ignored
+const MIN_DRAG_SIZE = 4;
+
+export class AnnotationEditorModal extends Modal {
+	private data: ArrayBuffer;
+	private mimeType: string;
+	private annotations: Annotation[];
+	private onSubmit: (result: AnnotationEditResult) => void;
+	private submitted = false;
+
+	private bitmap: ImageBitmap | null = null;
+	private tool: AnnotationTool = AnnotationTool.Arrow;
+	private color = DEFAULT_COLOR;
+	private label = '';
+	private draft: Annotation | null = null;
+
+	private canvasEl: HTMLCanvasElement | null = null;
+	private errorEl: HTMLElement | null = null;
+
+	/**
+	 * @param data - The unannotated image
+	 * @param annotations - Annotations loaded from the sidecar, if the image was annotated before
+	 */
+	constructor(
+		app: App,
+		data: ArrayBuffer,
+		mimeType: string,
+		annotations: Annotation[],
+		onSubmit: (result: AnnotationEditResult) => void
+	) {
+		super(app);
+		this.data = data;
+		this.mimeType = mimeType;
+		this.annotations = [...annotations];
+		this.onSubmit = onSubmit;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl, titleEl } = this;
+
+		this.containerEl.addClass('image-manager-editor-modal');
+		titleEl.setText('Annotate image');
+
+		this.renderToolbar(contentEl);
+
+		const stageContainer = contentEl.createDiv({ cls: 'image-manager-editor-stage-container' });
+		const stageEl = stageContainer.createDiv({ cls: 'image-manager-editor-stage' });
+		this.canvasEl = stageEl.createEl('canvas', { cls: 'image-manager-editor-canvas' });
+		this.registerPointerEvents(this.canvasEl);
+
+		this.errorEl = contentEl.createDiv({ cls: 'image-manager-error image-manager-error-hidden' });
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Save')
+					.setCta()
+					.onClick(() => this.submit());
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close());
+			});
+
+		try {
+			this.bitmap = await decodeImage(this.data, this.mimeType);
+			this.canvasEl.width = this.bitmap.width;
+			this.canvasEl.height = this.bitmap.height;
+			this.render();
+		} catch (error) {
+			console.error('[Image Manager] Could not decode image for annotating:', error);
+			this.showError('This image could not be opened for annotating');
+		}
+	}
+
+	private renderToolbar(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Tool')
+			.setDesc('Drag on the image to draw; click to place a text label')
+			.addDropdown((dropdown) => {
+				for (const tool of Object.values(AnnotationTool)) {
+					dropdown.addOption(tool, TOOL_LABELS[tool]);
+				}
+				dropdown
+					.setValue(this.tool)
+					.onChange((value) => {
+						this.tool = value as AnnotationTool;
+					});
+			})
+			.addColorPicker((picker) => {
+				picker
+					.setValue(this.color)
+					.onChange((value) => {
+						this.color = value;
+					});
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('undo-2')
+					.setTooltip('Remove last annotation')
+					.onClick(() => {
+						this.annotations.pop();
+						this.render();
+					});
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('trash')
+					.setTooltip('Remove all annotations')
+					.onClick(() => {
+						this.annotations = [];
+						this.render();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Label text')
+			.setDesc('Text placed by the text tool')
+			.addText((text) => {
+				text
+					.setPlaceholder('Click here')
+					.onChange((value) => {
+						this.label = value;
+					});
+			});
+	}
+
+	/**
+	 * Redraw the image with all annotations and the one being drawn
+	 */
+	private render(): void {
+		if (!this.bitmap || !this.canvasEl) {
+			return;
+		}
+
+		const ctx = getContext2d(this.canvasEl);
+		ctx.clearRect(0, 0, this.canvasEl.width, this.canvasEl.height);
+		ctx.drawImage(this.bitmap, 0, 0);
+
+		const annotations = this.draft ? [...this.annotations, this.draft] : this.annotations;
+		drawAnnotations(ctx, this.bitmap, annotations, this.bitmap.width, this.bitmap.height);
+	}
+
+	private registerPointerEvents(canvas: HTMLCanvasElement): void {
+		canvas.addEventListener('pointerdown', (e: PointerEvent) => {
+			if (!this.bitmap) {
+				return;
+			}
+			e.preventDefault();
+			this.hideError();
+			const point = this.toImagePoint(e);
+
+			if (this.tool === AnnotationTool.Text) {
+				if (!this.label.trim()) {
+					this.showError('Enter the label text first');
+					return;
+				}
+				this.annotations.push({ tool: this.tool, ...this.toLine(point, point), color: this.color, text: this.label.trim() });
+				this.render();
+				return;
+			}
+
+			canvas.setPointerCapture(e.pointerId);
+			this.draft = { tool: this.tool, ...this.toLine(point, point), color: this.color };
+		});
+
+		canvas.addEventListener('pointermove', (e: PointerEvent) => {
+			if (!this.draft) {
+				return;
+			}
+			const point = this.toImagePoint(e);
+			this.draft.x2 = point.x;
+			this.draft.y2 = point.y;
+			this.render();
+		});
+
+		const endDrag = () => {
+			if (!this.draft) {
+				return;
+			}
+			const draft = this.draft;
+			this.draft = null;
+			if (Math.abs(draft.x2 - draft.x1) >= MIN_DRAG_SIZE || Math.abs(draft.y2 - draft.y1) >= MIN_DRAG_SIZE) {
+				this.annotations.push(draft);
+			}
+			this.render();
+		};
+		canvas.addEventListener('pointerup', endDrag);
+		canvas.addEventListener('pointercancel', endDrag);
+	}
+
+	private toLine(start: { x: number; y: number }, end: { x: number; y: number }): Pick<Annotation, 'x1' | 'y1' | 'x2' | 'y2'> {
+		return { x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+	}
+
+	/**
+	 * Convert a pointer position to image pixels, clamped to the image
+	 */
+	private toImagePoint(e: PointerEvent): { x: number; y: number } {
+		if (!this.canvasEl) {
+			return { x: 0, y: 0 };
+		}
+
+		const rect = this.canvasEl.getBoundingClientRect();
+		const scaleX = this.canvasEl.width / (rect.width || 1);
+		const scaleY = this.canvasEl.height / (rect.height || 1);
+		return {
+			x: Math.round(Math.min(this.canvasEl.width, Math.max(0, (e.clientX - rect.left) * scaleX))),
+			y: Math.round(Math.min(this.canvasEl.height, Math.max(0, (e.clientY - rect.top) * scaleY))),
+		};
+	}
+
+	private showError(message: string): void {
+		if (this.errorEl) {
+			this.errorEl.setText(message);
+			this.errorEl.addClass('image-manager-error-visible');
+			this.errorEl.removeClass('image-manager-error-hidden');
+		}
+	}
+
+	private hideError(): void {
+		if (this.errorEl) {
+			this.errorEl.addClass('image-manager-error-hidden');
+			this.errorEl.removeClass('image-manager-error-visible');
+		}
+	}
+
+	private submit(): void {
+		if (!this.bitmap) {
+			return;
+		}
+
+		this.submitted = true;
+		this.onSubmit({ annotations: this.annotations, cancelled: false });
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.bitmap?.close();
+		this.bitmap = null;
+
+		// Closing without saving cancels
+		if (!this.submitted) {
+			this.onSubmit({ annotations: [], cancelled: true });
+		}
+	}
+}
+
+/**
+ * Open the annotation editor and return the result
+ */
+export function openAnnotationEditorModal(
+	app: App,
+	data: ArrayBuffer,
+	mimeType: string,
+	annotations: Annotation[]
+): Promise<AnnotationEditResult> {
+	return new Promise((resolve) => {
+		const modal = new AnnotationEditorModal(app, data, mimeType, annotations, resolve);
+		modal.open();
+	});
+}
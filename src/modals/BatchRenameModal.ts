@@ -0,0 +1,342 @@
+/**
+ * Batch Rename Modal
+ * Names several pasted or dropped images at once, with a shared base name, per-row skip and reordering
+ */
+
+import { App, Modal, Setting, TFile, normalizePath } from 'obsidian';
+import { FileNamePolicy } from '../types';
+import { formatFileSize } from '../utils/file-size';
+import { IMAGE_EXTENSIONS } from '../utils/file-types';
+import { createPreviewUrl, PendingImage, revokePreviewUrl } from '../utils/image-preview';
+import { slugifyFileName } from '../utils/slug';
+import { renderDuplicateName } from '../utils/template';
+
+/**
+ * An incoming file to name
+ */
+export interface BatchRenameItem extends PendingImage {
+	suggestedName: string;
+	existingFile: TFile | null; // Identical vault file that is linked instead of saving a copy
+}
+
+/**
+ * An item the user kept, with its chosen name
+ */
+export interface BatchRenameEntry {
+	item: BatchRenameItem;
+	name: string;
+}
+
+export interface BatchRenameResult {
+	entries: BatchRenameEntry[]; // Kept items in the chosen order
+	cancelled: boolean;
+}
+
+interface BatchRow {
+	item: BatchRenameItem;
+	name: string;
+	skipped: boolean;
+}
+
+export class BatchRenameModal extends Modal {
+	private rows: BatchRow[];
+	private template: string;
+	private duplicatePattern: string;
+	private namePolicy: FileNamePolicy;
+	private onSubmit: (result: BatchRenameResult) => void;
+	private submitted = false;
+
+	private baseName: string;
+	private numbered = false; // Renumber after reordering/skipping once a base name was applied
+	private thumbnailUrls = new Map<BatchRenameItem, string>();
+	private rowsEl: HTMLElement | null = null;
+	private errorEl: HTMLElement | null = null;
+
+	/**
+	 * @param template - Name template the suggestions were rendered from (shown as a preview)
+	 * @param duplicatePattern - Numbers rows sharing a base name (e.g. "{{name}}-{{n:3}}")
+	 */
+	constructor(
+		app: App,
+		items: BatchRenameItem[],
+		template: string,
+		duplicatePattern: string,
+		namePolicy: FileNamePolicy,
+		onSubmit: (result: BatchRenameResult) => void
+	) {
+		super(app);
+		this.rows = items.map((item) => ({ item, name: item.suggestedName, skipped: false }));
+		this.template = template;
+		this.duplicatePattern = duplicatePattern;
+		this.namePolicy = namePolicy;
+		this.onSubmit = onSubmit;
+		this.baseName = this.getCommonBase(items.map((item) => item.suggestedName));
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.modalEl.addClass('image-manager-batch-modal');
+		titleEl.setText(`Rename ${this.rows.length} images`);
+
+		if (this.template) {
+			const templateEl = contentEl.createDiv({ cls: 'image-manager-info' });
+			templateEl.createEl('strong', { text: 'Template: ' });
+			templateEl.createEl('code', { text: this.template });
+			templateEl.createSpan({ text: ` → ${this.baseName || '(empty)'}` });
+		}
+
+		new Setting(contentEl)
+			.setName('Base name')
+			.setDesc('Name all images after this base, numbered in the order below')
+			.addText((text) => {
+				text
+					.setValue(this.baseName)
+					.onChange((value) => {
+						this.baseName = this.sanitizeName(value);
+					});
+				text.inputEl.addEventListener('keydown', (e: KeyboardEvent) => {
+					if (e.key === 'Enter' && !e.isComposing) {
+						e.preventDefault();
+						this.applyBaseName();
+					}
+				});
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Apply to all')
+					.onClick(() => this.applyBaseName());
+			});
+
+		this.rowsEl = contentEl.createDiv({ cls: 'image-manager-batch-rows' });
+		this.renderRows();
+
+		this.errorEl = contentEl.createDiv({ cls: 'image-manager-error image-manager-error-hidden' });
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Insert')
+					.setCta()
+					.onClick(() => this.submit());
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close());
+			});
+	}
+
+	private renderRows(): void {
+		const rowsEl = this.rowsEl;
+		if (!rowsEl) {
+			return;
+		}
+		rowsEl.empty();
+
+		this.rows.forEach((row, index) => {
+			const rowEl = rowsEl.createDiv({ cls: 'image-manager-batch-row' });
+			rowEl.toggleClass('is-skipped', row.skipped);
+
+			this.renderThumbnail(rowEl, row.item);
+
+			const detailsEl = rowEl.createDiv({ cls: 'image-manager-batch-details' });
+			const pathEl = detailsEl.createDiv({ cls: 'image-manager-batch-meta' });
+
+			if (row.item.existingFile) {
+				// Identical image already in the vault: it is linked as-is
+				detailsEl.createDiv({ cls: 'image-manager-batch-name', text: row.item.existingFile.name });
+				pathEl.setText(`Links existing ${row.item.existingFile.path}`);
+			} else {
+				const input = detailsEl.createEl('input', {
+					type: 'text',
+					cls: 'image-manager-batch-input',
+					value: row.name,
+				});
+				input.disabled = row.skipped;
+				input.addEventListener('input', () => {
+					row.name = this.sanitizeName(input.value);
+					pathEl.setText(this.getNewPath(row));
+				});
+				pathEl.setText(this.getNewPath(row));
+			}
+			detailsEl.createDiv({
+				cls: 'image-manager-batch-meta',
+				text: `${row.item.extension.toUpperCase()} · ${formatFileSize(row.item.data.byteLength)}`,
+			});
+
+			new Setting(rowEl.createDiv({ cls: 'image-manager-batch-actions' }))
+				.addExtraButton((btn) => {
+					btn
+						.setIcon('arrow-up')
+						.setTooltip('Move up')
+						.setDisabled(index === 0)
+						.onClick(() => this.moveRow(index, -1));
+				})
+				.addExtraButton((btn) => {
+					btn
+						.setIcon('arrow-down')
+						.setTooltip('Move down')
+						.setDisabled(index === this.rows.length - 1)
+						.onClick(() => this.moveRow(index, 1));
+				})
+				.addToggle((toggle) => {
+					toggle
+						.setTooltip('Insert this image')
+						.setValue(!row.skipped)
+						.onChange((value) => {
+							row.skipped = !value;
+							if (this.numbered) {
+								this.renumber();
+							}
+							this.renderRows();
+						});
+				});
+		});
+	}
+
+	/**
+	 * Thumbnail from the in-memory bytes (nothing is written to the vault before confirming)
+	 */
+	private renderThumbnail(containerEl: HTMLElement, item: BatchRenameItem): void {
+		const thumbEl = containerEl.createDiv({ cls: 'image-manager-batch-thumb' });
+
+		let src: string | null = null;
+		if (item.existingFile) {
+			src = this.app.vault.getResourcePath(item.existingFile);
+		} else if (IMAGE_EXTENSIONS.includes(item.extension.toLowerCase())) {
+			src = this.thumbnailUrls.get(item) ?? createPreviewUrl(this.app, item);
+			this.thumbnailUrls.set(item, src);
+		}
+
+		if (src) {
+			thumbEl.createEl('img', { attr: { src, alt: item.suggestedName } });
+		} else {
+			thumbEl.setText(item.extension.toUpperCase());
+		}
+	}
+
+	private moveRow(index: number, offset: number): void {
+		const target = index + offset;
+		const row = this.rows[index];
+		const other = this.rows[target];
+		if (!row || !other) {
+			return;
+		}
+		this.rows[index] = other;
+		this.rows[target] = row;
+		if (this.numbered) {
+			this.renumber();
+		}
+		this.renderRows();
+	}
+
+	private applyBaseName(): void {
+		if (!this.baseName) {
+			this.showError('Base name cannot be empty');
+			return;
+		}
+		this.hideError();
+		this.numbered = true;
+		this.renumber();
+		this.renderRows();
+	}
+
+	/**
+	 * Name kept rows with the duplicate pattern in their current order
+	 */
+	private renumber(): void {
+		let counter = 1;
+		for (const row of this.rows) {
+			if (row.skipped || row.item.existingFile) {
+				continue;
+			}
+			row.name = renderDuplicateName(this.duplicatePattern, this.baseName, counter);
+			counter++;
+		}
+	}
+
+	/**
+	 * Longest shared prefix of the suggested names, without trailing separators
+	 */
+	private getCommonBase(names: string[]): string {
+		const first = names[0] ?? '';
+		let length = first.length;
+		for (const name of names) {
+			while (length > 0 && name.substring(0, length) !== first.substring(0, length)) {
+				length--;
+			}
+		}
+		return first.substring(0, length).replace(/[\s\-_]+$/, '');
+	}
+
+	private getNewPath(row: BatchRow): string {
+		const fileName = `${slugifyFileName(row.name, this.namePolicy)}.${row.item.extension}`;
+		return row.item.folder ? normalizePath(`${row.item.folder}/${fileName}`) : fileName;
+	}
+
+	private sanitizeName(name: string): string {
+		return name
+			.replace(/[\\/:*?"<>|]/g, '-')
+			.replace(/\s+/g, ' ')
+			.trim();
+	}
+
+	private showError(message: string): void {
+		if (this.errorEl) {
+			this.errorEl.setText(message);
+			this.errorEl.addClass('image-manager-error-visible');
+			this.errorEl.removeClass('image-manager-error-hidden');
+		}
+	}
+
+	private hideError(): void {
+		if (this.errorEl) {
+			this.errorEl.addClass('image-manager-error-hidden');
+			this.errorEl.removeClass('image-manager-error-visible');
+		}
+	}
+
+	private submit(): void {
+		const kept = this.rows.filter((row) => !row.skipped);
+		if (kept.some((row) => !row.item.existingFile && !row.name)) {
+			this.showError('Names cannot be empty');
+			return;
+		}
+
+		this.submitted = true;
+		this.onSubmit({
+			entries: kept.map((row) => ({ item: row.item, name: row.name })),
+			cancelled: false,
+		});
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.thumbnailUrls.forEach((url) => revokePreviewUrl(url));
+		this.thumbnailUrls.clear();
+
+		// Closing without confirming cancels the whole batch
+		if (!this.submitted) {
+			this.onSubmit({ entries: [], cancelled: true });
+		}
+	}
+}
+
+/**
+ * Open the batch rename modal and return the chosen names in order
+ */
+export function openBatchRenameModal(
+	app: App,
+	items: BatchRenameItem[],
+	template: string,
+	duplicatePattern: string,
+	namePolicy: FileNamePolicy
+): Promise<BatchRenameResult> {
+	return new Promise((resolve) => {
+		const modal = new BatchRenameModal(app, items, template, duplicatePattern, namePolicy, resolve);
+		modal.open();
+	});
+}
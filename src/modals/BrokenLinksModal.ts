@@ -0,0 +1,134 @@
+/**
+ * Broken Links Modal
+ * Lists image references that don't resolve, with suggested files to fix each one in one click
+ */
+
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { BrokenImageLink, BrokenLinkService } from '../services/BrokenLinkService';
+import { formatFileSize } from '../utils/file-size';
+
+export class BrokenLinksModal extends Modal {
+	private brokenLinkService: BrokenLinkService;
+
+	private links: BrokenImageLink[] = [];
+	private summaryEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(app: App, brokenLinkService: BrokenLinkService) {
+		super(app);
+		this.brokenLinkService = brokenLinkService;
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.modalEl.addClass('image-manager-broken-modal');
+		titleEl.setText('Broken image links');
+
+		this.summaryEl = contentEl.createEl('p', { cls: 'image-manager-broken-summary' });
+		this.listEl = contentEl.createDiv({ cls: 'image-manager-broken-list' });
+
+		void this.scan();
+	}
+
+	/**
+	 * Scan notes for unresolved image references and their candidates
+	 */
+	private async scan(): Promise<void> {
+		this.summaryEl?.setText('Scanning notes for broken image links...');
+
+		try {
+			this.links = await this.brokenLinkService.findBrokenLinks((done, total) => {
+				this.summaryEl?.setText(`Scanning notes for broken image links... (${done}/${total})`);
+			});
+		} catch (error) {
+			console.error('[Image Manager] Failed to scan for broken image links:', error);
+			this.summaryEl?.setText('Failed to scan for broken image links.');
+			return;
+		}
+
+		this.renderLinks();
+	}
+
+	private renderLinks(): void {
+		const listEl = this.listEl;
+		if (!listEl) {
+			return;
+		}
+		listEl.empty();
+		this.updateSummary();
+
+		for (const link of this.links) {
+			this.renderLink(listEl, link);
+		}
+	}
+
+	private renderLink(containerEl: HTMLElement, link: BrokenImageLink): void {
+		const linkEl = containerEl.createDiv({ cls: 'image-manager-broken-link' });
+
+		const headerEl = linkEl.createDiv({ cls: 'image-manager-broken-header' });
+		const noteEl = headerEl.createEl('a', { cls: 'image-manager-broken-note', text: link.note.path });
+		noteEl.addEventListener('click', () => {
+			void this.app.workspace.getLeaf(false).openFile(link.note);
+		});
+		headerEl.createEl('code', { cls: 'image-manager-broken-path', text: link.linkPath });
+
+		if (link.candidates.length === 0) {
+			linkEl.createDiv({ cls: 'image-manager-broken-empty', text: 'No similar images found' });
+			return;
+		}
+
+		const gridEl = linkEl.createDiv({ cls: 'image-manager-broken-grid' });
+		link.candidates.forEach((candidate, index) => {
+			const cardEl = gridEl.createDiv({ cls: 'image-manager-broken-card' });
+			cardEl.createEl('img', {
+				cls: 'image-manager-broken-thumb',
+				attr: { src: this.app.vault.getResourcePath(candidate), alt: candidate.name, loading: 'lazy' },
+			});
+			cardEl.createDiv({ cls: 'image-manager-broken-name', text: candidate.path });
+			cardEl.createDiv({ cls: 'image-manager-broken-meta', text: formatFileSize(candidate.stat.size) });
+
+			const button = cardEl.createEl('button', { text: 'Use this image' });
+			if (index === 0) {
+				button.addClass('mod-cta');
+			}
+			button.addEventListener('click', () => {
+				void this.fix(link, candidate, linkEl);
+			});
+		});
+	}
+
+	private updateSummary(): void {
+		this.summaryEl?.setText(this.links.length === 0
+			? 'No broken image links found.'
+			: `Found ${this.links.length} broken image link(s). Choose the image each one should point to.`);
+	}
+
+	/**
+	 * Point the broken link at the chosen image and drop it from the list
+	 */
+	private async fix(link: BrokenImageLink, target: TFile, linkEl: HTMLElement): Promise<void> {
+		try {
+			await this.brokenLinkService.fixLink(link, target);
+			this.links = this.links.filter((other) => other !== link);
+			linkEl.remove();
+			this.updateSummary();
+			new Notice(`Linked ${link.note.name} to ${target.name}`);
+		} catch (error) {
+			console.error('[Image Manager] Failed to fix broken image link:', error);
+			new Notice('Failed to fix link');
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Open the broken image links view
+ */
+export function openBrokenLinksModal(app: App, brokenLinkService: BrokenLinkService): void {
+	new BrokenLinksModal(app, brokenLinkService).open();
+}
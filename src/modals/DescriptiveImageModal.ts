@@ -1,21 +1,26 @@
 /**
  * Descriptive Image Modal
- * Asks user to describe the image, uses description as display text and kebab-case for filename
+ * Asks user to describe the image, uses description as display text and a slug of it for filename
  */
 
-import { App, Modal, Setting, TFile } from 'obsidian';
-import { toKebabCase } from '../utils/kebab-case';
+import { App, Modal, Setting } from 'obsidian';
+import { FileNamePolicy, FileNameStyle } from '../types';
+import { slugifyFileName } from '../utils/slug';
+import { createPreviewUrl, PreviewImage, revokePreviewUrl } from '../utils/image-preview';
 
 export interface DescriptiveImageResult {
 	description: string;
-	fileName: string; // kebab-case version
+	fileName: string; // Slug following the file name policy
 	cancelled: boolean;
 }
 
 export class DescriptiveImageModal extends Modal {
-	private imageFile: TFile;
+	private imageFile: PreviewImage;
 	private description: string = '';
+	private namePolicy: FileNamePolicy;
 	private onSubmit: (result: DescriptiveImageResult) => void;
+	private submitted = false;
+	private previewUrl: string | null = null;
 
 	private descriptionInput: HTMLInputElement | null = null;
 	private previewEl: HTMLElement | null = null;
@@ -24,12 +29,14 @@ export class DescriptiveImageModal extends Modal {
 
 	constructor(
 		app: App,
-		imageFile: TFile,
+		imageFile: PreviewImage,
+		namePolicy: FileNamePolicy,
 		onSubmit: (result: DescriptiveImageResult) => void,
 		suggestedDescription?: string
 	) {
 		super(app);
 		this.imageFile = imageFile;
+		this.namePolicy = namePolicy;
 		this.onSubmit = onSubmit;
 		this.description = suggestedDescription ?? '';
 	}
@@ -110,11 +117,12 @@ export class DescriptiveImageModal extends Modal {
 
 	private renderImagePreview(containerEl: HTMLElement): void {
 		const previewContainer = containerEl.createDiv({ cls: 'image-manager-preview' });
-		
+		this.previewUrl = createPreviewUrl(this.app, this.imageFile);
+
 		const img = previewContainer.createEl('img', {
 			attr: {
-				src: this.app.vault.getResourcePath(this.imageFile),
-				alt: this.imageFile.name,
+				src: this.previewUrl,
+				alt: this.description,
 			},
 		});
 
@@ -132,9 +140,8 @@ export class DescriptiveImageModal extends Modal {
 			return;
 		}
 
-		const kebabName = toKebabCase(this.description);
 		const extension = this.imageFile.extension;
-		const fileName = `${kebabName}.${extension}`;
+		const fileName = `${this.getFileName()}.${extension}`;
 		const displayText = this.description.trim();
 
 		if (this.fileNamePreviewEl) {
@@ -170,32 +177,53 @@ export class DescriptiveImageModal extends Modal {
 			return;
 		}
 
-		const kebabName = toKebabCase(this.description);
-		if (!kebabName || kebabName === '') {
+		const fileName = this.getFileName();
+		if (!fileName) {
 			this.showError('Description must contain valid characters');
 			return;
 		}
 
+		this.submitted = true;
 		this.onSubmit({
 			description: this.description.trim(),
-			fileName: kebabName,
+			fileName,
 			cancelled: false,
 		});
 		this.close();
 	}
 
+	/**
+	 * Turn the description into a file name
+	 * Descriptions have always been saved as lowercase kebab-case, so that is kept unless a
+	 * separator style is chosen
+	 */
+	private getFileName(): string {
+		const policy = this.namePolicy.fileNameStyle === FileNameStyle.Spaces
+			? { ...this.namePolicy, fileNameStyle: FileNameStyle.Kebab, fileNameLowercase: true }
+			: this.namePolicy;
+		return slugifyFileName(this.description, policy);
+	}
+
 	private cancel(): void {
-		this.onSubmit({
-			description: '',
-			fileName: '',
-			cancelled: true,
-		});
 		this.close();
 	}
 
 	onClose(): void {
 		const { contentEl } = this;
 		contentEl.empty();
+		if (this.previewUrl) {
+			revokePreviewUrl(this.previewUrl);
+			this.previewUrl = null;
+		}
+
+		// Closing without inserting cancels
+		if (!this.submitted) {
+			this.onSubmit({
+				description: '',
+				fileName: '',
+				cancelled: true,
+			});
+		}
 	}
 }
 
@@ -204,11 +232,12 @@ export class DescriptiveImageModal extends Modal {
  */
 export function openDescriptiveImageModal(
 	app: App,
-	imageFile: TFile,
+	imageFile: PreviewImage,
+	namePolicy: FileNamePolicy,
 	suggestedDescription?: string
 ): Promise<DescriptiveImageResult> {
 	return new Promise((resolve) => {
-		const modal = new DescriptiveImageModal(app, imageFile, resolve, suggestedDescription);
+		const modal = new DescriptiveImageModal(app, imageFile, namePolicy, resolve, suggestedDescription);
 		modal.open();
 	});
 }
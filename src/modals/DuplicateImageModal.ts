@@ -0,0 +1,92 @@
+/**
+ * Duplicate Image Modal
+ * Asks whether to link an identical image that is already in the vault or save a copy
+ */
+
+import { App, Modal, Setting, TFile } from 'obsidian';
+
+export interface DuplicateImageResult {
+	reuse: boolean; // Link the existing file instead of saving a copy
+	always: boolean; // Remember the choice to reuse
+	cancelled: boolean;
+}
+
+export class DuplicateImageModal extends Modal {
+	private existingFile: TFile;
+	private onSubmit: (result: DuplicateImageResult) => void;
+	private submitted = false;
+
+	constructor(app: App, existingFile: TFile, onSubmit: (result: DuplicateImageResult) => void) {
+		super(app);
+		this.existingFile = existingFile;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.containerEl.addClass('image-manager-rename-modal');
+		titleEl.setText('Image already in vault');
+
+		// Preview of the existing image
+		const previewContainer = contentEl.createDiv({ cls: 'image-manager-preview' });
+		const img = previewContainer.createEl('img', {
+			attr: {
+				src: this.app.vault.getResourcePath(this.existingFile),
+				alt: this.existingFile.name,
+			},
+		});
+		img.addClass('image-manager-preview-img');
+
+		const infoContainer = contentEl.createDiv({ cls: 'image-manager-info' });
+		infoContainer.createEl('p', { text: 'An identical image already exists:' });
+		const infoList = infoContainer.createEl('ul');
+		const pathItem = infoList.createEl('li');
+		pathItem.createEl('strong', { text: 'Path: ' });
+		pathItem.createEl('span', { text: this.existingFile.path });
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Link existing')
+					.setCta()
+					.onClick(() => this.submit(true, false));
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Save a copy')
+					.onClick(() => this.submit(false, false));
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Always reuse')
+					.onClick(() => this.submit(true, true));
+			});
+	}
+
+	private submit(reuse: boolean, always: boolean): void {
+		this.submitted = true;
+		this.onSubmit({ reuse, always, cancelled: false });
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// Closing without choosing cancels the insertion
+		if (!this.submitted) {
+			this.onSubmit({ reuse: false, always: false, cancelled: true });
+		}
+	}
+}
+
+/**
+ * Open the duplicate image modal and return the result
+ */
+export function openDuplicateImageModal(app: App, existingFile: TFile): Promise<DuplicateImageResult> {
+	return new Promise((resolve) => {
+		const modal = new DuplicateImageModal(app, existingFile, resolve);
+		modal.open();
+	});
+}
@@ -6,6 +6,7 @@
 import { App, Modal, Notice, MarkdownView, TFile } from 'obsidian';
 import { ImageProcessor } from '../services/ImageProcessor';
 import { PropertyHandler } from '../services/PropertyHandler';
+import { ImageSource } from '../types';
 
 export class FilePickerModal extends Modal {
 	private imageProcessor: ImageProcessor;
@@ -90,26 +91,31 @@ export class FilePickerModal extends Modal {
 						file,
 						activeFile,
 						true, // Show rename modal
-						true // isPropertyInsertion - skip descriptive images
+						true, // isPropertyInsertion - skip descriptive images
+						ImageSource.FilePicker
 					);
 
-					if (result.success && result.file) {
-						await this.propertyHandler.setPropertyValue(
-							activeFile,
-							this.propertyName,
-							result.file
-						);
+					const savedFile = result.file;
+					const propertyName = this.propertyName;
+					if (result.success && savedFile) {
+						await this.imageProcessor.applyInsertion(activeFile, [result], async () => {
+							await this.propertyHandler.setPropertyValue(activeFile, propertyName, savedFile);
+						});
 					}
 				} else {
 					// Insert into note body
 					const result = await this.imageProcessor.processImageFile(
 						file,
 						activeFile,
-						true // Show rename modal
+						true, // Show rename modal
+						false,
+						ImageSource.FilePicker
 					);
 
 					if (result.success && result.linkText && editor) {
-						editor.replaceSelection(result.linkText);
+						await this.imageProcessor.applyInsertion(activeFile, [result], () => {
+							editor.replaceSelection(result.linkText);
+						}, editor);
 					}
 				}
 			}
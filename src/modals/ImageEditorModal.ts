@@ -0,0 +1,397 @@
+/**
+ * Image Editor Modal
+ * Crop, rotate and flip an image on a canvas before it is saved
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { decodeImage } from '../utils/image-canvas';
+import {
+	CropRect,
+	cropCanvas,
+	drawRotated,
+	encodeTransformed,
+	ImageTransform,
+	isIdentityTransform,
+} from '../utils/image-transform';
+
+export interface ImageEditResult {
+	data: ArrayBuffer | null; // Edited bytes, or null if nothing was changed
+	mimeType: string; // PNG if the original type could not be encoded
+	cancelled: boolean;
+}
+
+// Crop aspect ratios (width / height); "free" has no constraint
+const ASPECT_RATIOS: Record<string, number | null> = {
+	free: null,
+	'1:1': 1,
+	'4:3': 4 / 3,
+	'3:2': 3 / 2,
+	'16:9': 16 / 9,
+};
+
+// Drags smaller than this (in image pixels) clear the crop
+const MIN_CROP_SIZE = 4;
+
+interface Point {
+	x: number;
+	y: number;
+}
+
+export class ImageEditorModal extends Modal {
+	private data: ArrayBuffer;
+	private mimeType: string;
+	private quality: number;
+	private onSubmit: (result: ImageEditResult) => void;
+	private submitted = false;
+
+	private bitmap: ImageBitmap | null = null;
+	private rotatedCanvas: HTMLCanvasElement | null = null;
+	private transform: ImageTransform = { rotation: 0, flipH: false, flipV: false, crop: null };
+	private aspectKey = 'free';
+	private dragStart: Point | null = null;
+
+	private canvasEl: HTMLCanvasElement | null = null;
+	private cropEl: HTMLElement | null = null;
+	private sizeEl: HTMLElement | null = null;
+	private errorEl: HTMLElement | null = null;
+
+	/**
+	 * @param quality - Quality between 0 and 1 used when re-encoding lossy formats
+	 */
+	constructor(
+		app: App,
+		data: ArrayBuffer,
+		mimeType: string,
+		quality: number,
+		onSubmit: (result: ImageEditResult) => void
+	) {
+		super(app);
+		this.data = data;
+		this.mimeType = mimeType;
+		this.quality = quality;
+		this.onSubmit = onSubmit;
+	}
+
+	async onOpen(): Promise<void> {
+		const { contentEl, titleEl } = this;
+
+		this.containerEl.addClass('image-manager-editor-modal');
+		titleEl.setText('Edit image');
+
+		this.renderToolbar(contentEl);
+
+		// Canvas with the crop overlay on top
+		const stageContainer = contentEl.createDiv({ cls: 'image-manager-editor-stage-container' });
+		const stageEl = stageContainer.createDiv({ cls: 'image-manager-editor-stage' });
+		this.canvasEl = stageEl.createEl('canvas', { cls: 'image-manager-editor-canvas' });
+		this.cropEl = stageEl.createDiv({ cls: 'image-manager-editor-crop image-manager-editor-crop-hidden' });
+		this.registerPointerEvents(this.canvasEl);
+
+		this.sizeEl = contentEl.createDiv({ cls: 'image-manager-editor-size' });
+		this.errorEl = contentEl.createDiv({ cls: 'image-manager-error image-manager-error-hidden' });
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Apply')
+					.setCta()
+					.onClick(() => { void this.submit(); });
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close());
+			});
+
+		try {
+			this.bitmap = await decodeImage(this.data, this.mimeType);
+			this.render();
+		} catch (error) {
+			console.error('[Image Manager] Could not decode image for editing:', error);
+			this.showError('This image could not be opened for editing');
+		}
+	}
+
+	private renderToolbar(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Crop')
+			.setDesc('Drag on the image to select the area to keep')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('free', 'Free');
+				for (const key of Object.keys(ASPECT_RATIOS)) {
+					if (key !== 'free') {
+						dropdown.addOption(key, key);
+					}
+				}
+				dropdown
+					.setValue(this.aspectKey)
+					.onChange((value) => {
+						this.aspectKey = value;
+						this.transform.crop = this.getDefaultCrop();
+						this.updateOverlay();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Rotate and flip')
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('rotate-ccw')
+					.setTooltip('Rotate left')
+					.onClick(() => this.rotate(270));
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('rotate-cw')
+					.setTooltip('Rotate right')
+					.onClick(() => this.rotate(90));
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('flip-horizontal-2')
+					.setTooltip('Flip horizontally')
+					.onClick(() => {
+						this.transform.flipH = !this.transform.flipH;
+						this.render();
+					});
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('flip-vertical-2')
+					.setTooltip('Flip vertically')
+					.onClick(() => {
+						this.transform.flipV = !this.transform.flipV;
+						this.render();
+					});
+			})
+			.addExtraButton((btn) => {
+				btn
+					.setIcon('reset')
+					.setTooltip('Reset')
+					.onClick(() => {
+						this.transform = { rotation: 0, flipH: false, flipV: false, crop: null };
+						this.render();
+					});
+			});
+	}
+
+	private rotate(degrees: 90 | 270): void {
+		this.transform.rotation = ((this.transform.rotation + degrees) % 360) as ImageTransform['rotation'];
+		this.render();
+	}
+
+	/**
+	 * Redraw the rotated/flipped image; the crop is reset since its coordinates no longer apply
+	 */
+	private render(): void {
+		if (!this.bitmap || !this.canvasEl) {
+			return;
+		}
+
+		this.rotatedCanvas = drawRotated(this.bitmap, this.bitmap.width, this.bitmap.height, this.transform);
+		this.canvasEl.width = this.rotatedCanvas.width;
+		this.canvasEl.height = this.rotatedCanvas.height;
+		this.canvasEl.getContext('2d')?.drawImage(this.rotatedCanvas, 0, 0);
+
+		this.transform.crop = this.getDefaultCrop();
+		this.updateOverlay();
+	}
+
+	/**
+	 * Largest centered crop for a fixed aspect ratio, or no crop for "free"
+	 */
+	private getDefaultCrop(): CropRect | null {
+		const aspect = ASPECT_RATIOS[this.aspectKey] ?? null;
+		if (!aspect || !this.rotatedCanvas) {
+			return null;
+		}
+
+		const { width, height } = this.rotatedCanvas;
+		const cropWidth = Math.min(width, Math.round(height * aspect));
+		const cropHeight = Math.min(height, Math.round(cropWidth / aspect));
+		return {
+			x: Math.round((width - cropWidth) / 2),
+			y: Math.round((height - cropHeight) / 2),
+			width: cropWidth,
+			height: cropHeight,
+		};
+	}
+
+	private registerPointerEvents(canvas: HTMLCanvasElement): void {
+		canvas.addEventListener('pointerdown', (e: PointerEvent) => {
+			if (!this.rotatedCanvas) {
+				return;
+			}
+			e.preventDefault();
+			canvas.setPointerCapture(e.pointerId);
+			this.dragStart = this.toImagePoint(e);
+		});
+
+		canvas.addEventListener('pointermove', (e: PointerEvent) => {
+			if (!this.dragStart) {
+				return;
+			}
+			this.transform.crop = this.getCropFromDrag(this.dragStart, this.toImagePoint(e));
+			this.updateOverlay();
+		});
+
+		const endDrag = () => {
+			if (!this.dragStart) {
+				return;
+			}
+			this.dragStart = null;
+			const crop = this.transform.crop;
+			if (!crop || crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE) {
+				this.transform.crop = this.getDefaultCrop();
+			}
+			this.updateOverlay();
+		};
+		canvas.addEventListener('pointerup', endDrag);
+		canvas.addEventListener('pointercancel', endDrag);
+	}
+
+	/**
+	 * Convert a pointer position to image pixels, clamped to the image
+	 */
+	private toImagePoint(e: PointerEvent): Point {
+		if (!this.canvasEl) {
+			return { x: 0, y: 0 };
+		}
+
+		const rect = this.canvasEl.getBoundingClientRect();
+		const scaleX = this.canvasEl.width / (rect.width || 1);
+		const scaleY = this.canvasEl.height / (rect.height || 1);
+		return {
+			x: Math.min(this.canvasEl.width, Math.max(0, (e.clientX - rect.left) * scaleX)),
+			y: Math.min(this.canvasEl.height, Math.max(0, (e.clientY - rect.top) * scaleY)),
+		};
+	}
+
+	/**
+	 * Build the crop rectangle spanned by a drag, keeping the selected aspect ratio inside the image
+	 */
+	private getCropFromDrag(start: Point, end: Point): CropRect | null {
+		if (!this.rotatedCanvas) {
+			return null;
+		}
+
+		const { width: imageWidth, height: imageHeight } = this.rotatedCanvas;
+		const right = end.x >= start.x;
+		const down = end.y >= start.y;
+		const maxWidth = right ? imageWidth - start.x : start.x;
+		const maxHeight = down ? imageHeight - start.y : start.y;
+
+		let width = Math.abs(end.x - start.x);
+		let height = Math.abs(end.y - start.y);
+
+		const aspect = ASPECT_RATIOS[this.aspectKey] ?? null;
+		if (aspect) {
+			// Follow the larger side of the drag, then shrink to fit the image
+			if (width / aspect >= height) {
+				height = width / aspect;
+			} else {
+				width = height * aspect;
+			}
+			const scale = Math.min(1, maxWidth / (width || 1), maxHeight / (height || 1));
+			width *= scale;
+			height *= scale;
+		} else {
+			width = Math.min(width, maxWidth);
+			height = Math.min(height, maxHeight);
+		}
+
+		return {
+			x: Math.round(right ? start.x : start.x - width),
+			y: Math.round(down ? start.y : start.y - height),
+			width: Math.round(width),
+			height: Math.round(height),
+		};
+	}
+
+	/**
+	 * Position the crop overlay and show the output size
+	 */
+	private updateOverlay(): void {
+		if (!this.cropEl || !this.rotatedCanvas) {
+			return;
+		}
+
+		const { width, height } = this.rotatedCanvas;
+		const crop = this.transform.crop;
+
+		if (crop) {
+			this.cropEl.removeClass('image-manager-editor-crop-hidden');
+			this.cropEl.setCssProps({
+				'--crop-left': `${(crop.x / width) * 100}%`,
+				'--crop-top': `${(crop.y / height) * 100}%`,
+				'--crop-width': `${(crop.width / width) * 100}%`,
+				'--crop-height': `${(crop.height / height) * 100}%`,
+			});
+		} else {
+			this.cropEl.addClass('image-manager-editor-crop-hidden');
+		}
+
+		this.sizeEl?.setText(`${crop?.width ?? width} × ${crop?.height ?? height} px`);
+	}
+
+	private showError(message: string): void {
+		if (this.errorEl) {
+			this.errorEl.setText(message);
+			this.errorEl.addClass('image-manager-error-visible');
+			this.errorEl.removeClass('image-manager-error-hidden');
+		}
+	}
+
+	private async submit(): Promise<void> {
+		if (!this.rotatedCanvas) {
+			return;
+		}
+
+		if (isIdentityTransform(this.transform)) {
+			this.submitted = true;
+			this.onSubmit({ data: null, mimeType: this.mimeType, cancelled: false });
+			this.close();
+			return;
+		}
+
+		try {
+			const canvas = cropCanvas(this.rotatedCanvas, this.transform.crop);
+			const encoded = await encodeTransformed(canvas, this.mimeType, this.quality);
+			this.submitted = true;
+			this.onSubmit({ data: encoded.data, mimeType: encoded.mimeType, cancelled: false });
+			this.close();
+		} catch (error) {
+			console.error('[Image Manager] Could not save edited image:', error);
+			this.showError('The edited image could not be saved');
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.bitmap?.close();
+		this.bitmap = null;
+		this.rotatedCanvas = null;
+
+		// Closing without applying cancels
+		if (!this.submitted) {
+			this.onSubmit({ data: null, mimeType: this.mimeType, cancelled: true });
+		}
+	}
+}
+
+/**
+ * Open the image editor and return the result
+ * @param quality - Quality between 0 and 1 used when re-encoding lossy formats
+ */
+export function openImageEditorModal(
+	app: App,
+	data: ArrayBuffer,
+	mimeType: string,
+	quality: number
+): Promise<ImageEditResult> {
+	return new Promise((resolve) => {
+		const modal = new ImageEditorModal(app, data, mimeType, quality, resolve);
+		modal.open();
+	});
+}
@@ -0,0 +1,101 @@
+/**
+ * Image Rename Preview Modal
+ * Shows old and new names of images about to be renamed, with a per-row toggle
+ */
+
+import { App, Modal, Setting, TFile } from 'obsidian';
+
+/**
+ * A planned rename of one image
+ */
+export interface ImageRename {
+	file: TFile;
+	newPath: string;
+}
+
+export interface ImageRenamePreviewResult {
+	renames: ImageRename[]; // Renames the user kept
+	cancelled: boolean;
+}
+
+export class ImageRenamePreviewModal extends Modal {
+	private title: string;
+	private rows: { rename: ImageRename; skipped: boolean }[];
+	private onSubmit: (result: ImageRenamePreviewResult) => void;
+	private submitted = false;
+
+	constructor(app: App, title: string, renames: ImageRename[], onSubmit: (result: ImageRenamePreviewResult) => void) {
+		super(app);
+		this.title = title;
+		this.rows = renames.map((rename) => ({ rename, skipped: false }));
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.modalEl.addClass('image-manager-rename-preview-modal');
+		titleEl.setText(this.title);
+
+		const listEl = contentEl.createDiv({ cls: 'image-manager-rename-preview' });
+		for (const row of this.rows) {
+			const rowEl = listEl.createDiv({ cls: 'image-manager-rename-preview-row' });
+			const namesEl = rowEl.createDiv({ cls: 'image-manager-rename-preview-names' });
+			namesEl.createDiv({ cls: 'image-manager-rename-preview-old', text: row.rename.file.path });
+			namesEl.createDiv({ cls: 'image-manager-rename-preview-new', text: row.rename.newPath });
+
+			new Setting(rowEl.createDiv({ cls: 'image-manager-rename-preview-toggle' }))
+				.addToggle((toggle) => {
+					toggle
+						.setTooltip('Rename this image')
+						.setValue(!row.skipped)
+						.onChange((value) => {
+							row.skipped = !value;
+							rowEl.toggleClass('is-skipped', row.skipped);
+						});
+				});
+		}
+
+		new Setting(contentEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Rename')
+					.setCta()
+					.onClick(() => this.submit());
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close());
+			});
+	}
+
+	private submit(): void {
+		this.submitted = true;
+		this.onSubmit({
+			renames: this.rows.filter((row) => !row.skipped).map((row) => row.rename),
+			cancelled: false,
+		});
+		this.close();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// Closing without confirming renames nothing
+		if (!this.submitted) {
+			this.onSubmit({ renames: [], cancelled: true });
+		}
+	}
+}
+
+/**
+ * Open the rename preview and return the renames the user kept
+ */
+export function openImageRenamePreviewModal(app: App, title: string, renames: ImageRename[]): Promise<ImageRenamePreviewResult> {
+	return new Promise((resolve) => {
+		const modal = new ImageRenamePreviewModal(app, title, renames, resolve);
+		modal.open();
+	});
+}
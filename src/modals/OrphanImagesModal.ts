@@ -0,0 +1,256 @@
+/**
+ * Orphaned Images Modal
+ * Lists images no note references, with bulk trash, move and whitelist actions
+ */
+
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { OrphanImageService } from '../services/OrphanImageService';
+import { formatFileSize } from '../utils/file-size';
+import { openConfirmModal } from './ConfirmModal';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export class OrphanImagesModal extends Modal {
+	private orphanImageService: OrphanImageService;
+
+	private orphans: TFile[] = [];
+	private selected = new Set<TFile>();
+	private summaryEl: HTMLElement | null = null;
+	private actionsEl: HTMLElement | null = null;
+	private gridEl: HTMLElement | null = null;
+
+	constructor(app: App, orphanImageService: OrphanImageService) {
+		super(app);
+		this.orphanImageService = orphanImageService;
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.modalEl.addClass('image-manager-orphan-modal');
+		titleEl.setText('Orphaned images');
+
+		this.summaryEl = contentEl.createEl('p', { cls: 'image-manager-orphan-summary' });
+		this.actionsEl = contentEl.createDiv();
+		this.gridEl = contentEl.createDiv({ cls: 'image-manager-orphan-grid' });
+
+		void this.scan();
+	}
+
+	/**
+	 * Scan notes for references, then list the images none of them use
+	 */
+	private async scan(): Promise<void> {
+		this.summaryEl?.setText('Scanning notes for references...');
+
+		try {
+			this.orphans = await this.orphanImageService.findOrphans((done, total) => {
+				this.summaryEl?.setText(`Scanning notes for references... (${done}/${total})`);
+			});
+		} catch (error) {
+			console.error('[Image Manager] Failed to scan for orphaned images:', error);
+			this.summaryEl?.setText('Failed to scan for orphaned images.');
+			return;
+		}
+
+		this.selected = new Set();
+		this.renderActions();
+		this.renderGrid();
+	}
+
+	private renderActions(): void {
+		const actionsEl = this.actionsEl;
+		if (!actionsEl) {
+			return;
+		}
+		actionsEl.empty();
+		if (this.orphans.length === 0) {
+			return;
+		}
+
+		new Setting(actionsEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Select all')
+					.onClick(() => this.setSelection(this.orphans));
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Select none')
+					.onClick(() => this.setSelection([]));
+			});
+
+		new Setting(actionsEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Move to trash')
+					.setWarning()
+					.onClick(() => void this.trashSelected());
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText(`Move to ${this.orphanImageService.getMoveFolder()}`)
+					.onClick(() => void this.moveSelected());
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Whitelist')
+					.setTooltip('Never report the selected images again')
+					.onClick(() => void this.whitelistSelected());
+			});
+	}
+
+	private renderGrid(): void {
+		const gridEl = this.gridEl;
+		if (!gridEl) {
+			return;
+		}
+		gridEl.empty();
+		this.updateSummary();
+
+		for (const file of this.orphans) {
+			const cardEl = gridEl.createEl('label', { cls: 'image-manager-orphan-card' });
+
+			const checkbox = cardEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selected.has(file);
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(file);
+				} else {
+					this.selected.delete(file);
+				}
+				this.updateSummary();
+			});
+
+			cardEl.createEl('img', {
+				cls: 'image-manager-orphan-thumb',
+				attr: { src: this.app.vault.getResourcePath(file), alt: file.name, loading: 'lazy' },
+			});
+			cardEl.createDiv({ cls: 'image-manager-orphan-name', text: file.name });
+			cardEl.createDiv({ cls: 'image-manager-orphan-meta', text: file.parent?.path || '/' });
+			cardEl.createDiv({
+				cls: 'image-manager-orphan-meta',
+				text: `${formatFileSize(file.stat.size)} · added ${formatAge(file.stat.ctime)}`,
+			});
+		}
+	}
+
+	private updateSummary(): void {
+		if (this.orphans.length === 0) {
+			this.summaryEl?.setText('No orphaned images found. Every image is used by a note.');
+			return;
+		}
+		const total = this.orphans.reduce((sum, file) => sum + file.stat.size, 0);
+		this.summaryEl?.setText(
+			`Found ${this.orphans.length} image(s) no note references (${formatFileSize(total)}). ` +
+			`${this.selected.size} selected.`
+		);
+	}
+
+	private setSelection(files: TFile[]): void {
+		this.selected = new Set(files);
+		this.renderGrid();
+	}
+
+	private async trashSelected(): Promise<void> {
+		const files = this.getSelection();
+		if (files.length === 0) {
+			return;
+		}
+		const result = await openConfirmModal(
+			this.app,
+			'Trash Orphaned Images',
+			`Move ${files.length} image(s) to trash?`,
+			'Move to trash',
+			'Cancel'
+		);
+		if (!result.confirmed) {
+			return;
+		}
+
+		const trashed = await this.orphanImageService.trashImages(files);
+		this.remove(trashed);
+		new Notice(trashed.length === files.length
+			? `Moved ${trashed.length} image(s) to trash`
+			: `Moved ${trashed.length} of ${files.length} image(s) to trash, see the console for errors`);
+	}
+
+	private async moveSelected(): Promise<void> {
+		const files = this.getSelection();
+		if (files.length === 0) {
+			return;
+		}
+
+		try {
+			const moved = await this.orphanImageService.moveImages(files);
+			this.remove(moved);
+			new Notice(`Moved ${moved.length} image(s) to ${this.orphanImageService.getMoveFolder()}`);
+		} catch (error) {
+			console.error('[Image Manager] Failed to move orphaned images:', error);
+			new Notice('Failed to move images');
+		}
+	}
+
+	private async whitelistSelected(): Promise<void> {
+		const files = this.getSelection();
+		if (files.length === 0) {
+			return;
+		}
+
+		await this.orphanImageService.whitelistImages(files);
+		this.remove(files);
+		new Notice(`Whitelisted ${files.length} image(s)`);
+	}
+
+	private getSelection(): TFile[] {
+		const files = this.orphans.filter((file) => this.selected.has(file));
+		if (files.length === 0) {
+			new Notice('Select images first');
+		}
+		return files;
+	}
+
+	/**
+	 * Drop handled images from the list
+	 */
+	private remove(files: TFile[]): void {
+		const handled = new Set(files);
+		this.orphans = this.orphans.filter((file) => !handled.has(file));
+		for (const file of files) {
+			this.selected.delete(file);
+		}
+		this.renderActions();
+		this.renderGrid();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Describe how long ago a timestamp was ("today", "3 days ago", "2 months ago")
+ */
+function formatAge(time: number): string {
+	const days = Math.floor((Date.now() - time) / DAY);
+	if (days < 1) {
+		return 'today';
+	}
+	if (days < 30) {
+		return days === 1 ? 'yesterday' : `${days} days ago`;
+	}
+	const months = Math.floor(days / 30);
+	if (months < 12) {
+		return months === 1 ? '1 month ago' : `${months} months ago`;
+	}
+	const years = Math.floor(days / 365);
+	return years <= 1 ? '1 year ago' : `${years} years ago`;
+}
+
+/**
+ * Open the orphaned images view
+ */
+export function openOrphanImagesModal(app: App, orphanImageService: OrphanImageService): void {
+	new OrphanImagesModal(app, orphanImageService).open();
+}
@@ -357,9 +357,11 @@ export class RemoteSearchModal extends Modal {
 					const referralText = this.remoteService.generateReferralText(image);
 					const fullText = result.linkText + referralText;
 
-					const view = this.app.workspace.getActiveViewOfType(MarkdownView);
-					if (view?.editor) {
-						view.editor.replaceSelection(fullText);
+					const editor = this.app.workspace.getActiveViewOfType(MarkdownView)?.editor;
+					if (editor) {
+						await this.imageProcessor.applyInsertion(activeFile, [result], () => {
+							editor.replaceSelection(fullText);
+						}, editor);
 					}
 				}
 			}
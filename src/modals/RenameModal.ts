@@ -4,17 +4,37 @@
  */
 
 import { App, Modal, Setting, TFile } from 'obsidian';
+import { FileNamePolicy } from '../types';
+import { formatFileSize } from '../utils/file-size';
+import { AUDIO_EXTENSIONS, IMAGE_EXTENSIONS, VIDEO_EXTENSIONS } from '../utils/file-types';
+import { createPreviewUrl, getPreviewFolder, PreviewImage, revokePreviewUrl } from '../utils/image-preview';
+import { slugifyFileName } from '../utils/slug';
 
 export interface RenameResult {
 	newName: string;
 	cancelled: boolean;
+	edit?: boolean; // Open the image editor, then show this modal again
+	annotate?: boolean; // Save with the new name, then open the annotation editor
+}
+
+/**
+ * Image size before and after optimization
+ */
+export interface ImageSizeInfo {
+	originalSize: number;
+	finalSize: number;
 }
 
 export class RenameModal extends Modal {
-	private imageFile: TFile;
+	private imageFile: PreviewImage;
 	private suggestedName: string;
 	private currentName: string;
+	private namePolicy: FileNamePolicy;
+	private sizeInfo?: ImageSizeInfo;
+	private canEdit: boolean;
 	private onSubmit: (result: RenameResult) => void;
+	private submitted = false;
+	private previewUrl: string | null = null;
 
 	private nameInput: HTMLInputElement | null = null;
 	private previewEl: HTMLElement | null = null;
@@ -22,22 +42,28 @@ export class RenameModal extends Modal {
 
 	constructor(
 		app: App,
-		imageFile: TFile,
+		imageFile: PreviewImage,
 		suggestedName: string,
-		onSubmit: (result: RenameResult) => void
+		namePolicy: FileNamePolicy,
+		onSubmit: (result: RenameResult) => void,
+		sizeInfo?: ImageSizeInfo,
+		canEdit: boolean = false
 	) {
 		super(app);
 		this.imageFile = imageFile;
 		this.suggestedName = suggestedName;
 		this.currentName = suggestedName;
+		this.namePolicy = namePolicy;
 		this.onSubmit = onSubmit;
+		this.sizeInfo = sizeInfo;
+		this.canEdit = canEdit;
 	}
 
 	onOpen(): void {
 		const { contentEl, titleEl } = this;
 		
 		this.containerEl.addClass('image-manager-rename-modal');
-		titleEl.setText('Rename image');
+		titleEl.setText(this.isImage() ? 'Rename image' : 'Rename file');
 
 		// Image preview
 		this.renderImagePreview(contentEl);
@@ -65,11 +91,26 @@ export class RenameModal extends Modal {
 
 	private renderImagePreview(containerEl: HTMLElement): void {
 		const previewContainer = containerEl.createDiv({ cls: 'image-manager-preview' });
-		
+		const extension = this.imageFile.extension.toLowerCase();
+		const src = createPreviewUrl(this.app, this.imageFile);
+		this.previewUrl = src;
+
+		// Non-image attachments: players for audio/video, a placeholder for everything else
+		if (!this.isImage()) {
+			if (VIDEO_EXTENSIONS.includes(extension)) {
+				previewContainer.createEl('video', { cls: 'image-manager-preview-media', attr: { src, controls: '' } });
+			} else if (AUDIO_EXTENSIONS.includes(extension)) {
+				previewContainer.createEl('audio', { cls: 'image-manager-preview-media', attr: { src, controls: '' } });
+			} else {
+				previewContainer.createDiv({ cls: 'image-manager-preview-placeholder', text: extension.toUpperCase() });
+			}
+			return;
+		}
+
 		const img = previewContainer.createEl('img', {
 			attr: {
-				src: this.app.vault.getResourcePath(this.imageFile),
-				alt: this.imageFile.name,
+				src,
+				alt: this.suggestedName,
 			},
 		});
 
@@ -82,21 +123,41 @@ export class RenameModal extends Modal {
 		
 		const infoList = infoContainer.createEl('ul');
 		
-		// Original path
-		const originalItem = infoList.createEl('li');
-		originalItem.createEl('strong', { text: 'Original: ' });
-		originalItem.createEl('span', { text: this.imageFile.path });
+		// Original path (pending files are not in the vault yet)
+		if (this.imageFile instanceof TFile) {
+			const originalItem = infoList.createEl('li');
+			originalItem.createEl('strong', { text: 'Original: ' });
+			originalItem.createEl('span', { text: this.imageFile.path });
+		}
 
 		// New path preview
 		const newItem = infoList.createEl('li');
 		newItem.createEl('strong', { text: 'New path: ' });
 		this.previewEl = newItem.createEl('span', { text: this.getNewPath(this.currentName) });
+
+		// Size (before and after optimization)
+		if (this.sizeInfo) {
+			const sizeItem = infoList.createEl('li');
+			sizeItem.createEl('strong', { text: 'Size: ' });
+			const { originalSize, finalSize } = this.sizeInfo;
+			const sizeText = originalSize === finalSize
+				? formatFileSize(finalSize)
+				: `${formatFileSize(originalSize)} → ${formatFileSize(finalSize)} (${this.getSavingsPercent(originalSize, finalSize)}% smaller)`;
+			sizeItem.createEl('span', { text: sizeText });
+		}
+	}
+
+	private getSavingsPercent(originalSize: number, finalSize: number): number {
+		if (originalSize <= 0) {
+			return 0;
+		}
+		return Math.round((1 - finalSize / originalSize) * 100);
 	}
 
 	private renderNameInput(containerEl: HTMLElement): void {
 		new Setting(containerEl)
 			.setName('New name')
-			.setDesc('Enter a new name for the image (without extension)')
+			.setDesc(`Enter a new name for the ${this.isImage() ? 'image' : 'file'} (without extension)`)
 			.addText((text) => {
 				this.nameInput = text.inputEl;
 				text
@@ -118,24 +179,42 @@ export class RenameModal extends Modal {
 	}
 
 	private renderButtons(containerEl: HTMLElement): void {
-		new Setting(containerEl)
+		const buttons = new Setting(containerEl)
 			.addButton((btn) => {
 				btn
 					.setButtonText('Rename')
 					.setCta()
 					.onClick(() => this.submit());
-			})
-			.addButton((btn) => {
+			});
+
+		if (this.canEdit) {
+			buttons.addButton((btn) => {
+				btn
+					.setButtonText('Edit image')
+					.onClick(() => this.edit());
+			});
+			buttons.addButton((btn) => {
 				btn
-					.setButtonText('Skip')
-					.onClick(() => this.cancel());
+					.setButtonText('Annotate')
+					.onClick(() => this.annotate());
 			});
+		}
+
+		buttons.addButton((btn) => {
+			btn
+				.setButtonText('Skip')
+				.onClick(() => this.cancel());
+		});
+	}
+
+	private isImage(): boolean {
+		return IMAGE_EXTENSIONS.includes(this.imageFile.extension.toLowerCase());
 	}
 
 	private getNewPath(name: string): string {
-		const folder = this.imageFile.parent?.path ?? '';
+		const folder = getPreviewFolder(this.imageFile);
 		const extension = this.imageFile.extension;
-		const fileName = `${name}.${extension}`;
+		const fileName = `${slugifyFileName(name, this.namePolicy)}.${extension}`;
 		return folder ? `${folder}/${fileName}` : fileName;
 	}
 
@@ -174,7 +253,12 @@ export class RenameModal extends Modal {
 			this.showError('Name cannot be empty');
 			return;
 		}
+		if (!slugifyFileName(this.currentName, this.namePolicy)) {
+			this.showError('Name must contain valid characters');
+			return;
+		}
 
+		this.submitted = true;
 		this.onSubmit({
 			newName: this.currentName,
 			cancelled: false,
@@ -182,30 +266,74 @@ export class RenameModal extends Modal {
 		this.close();
 	}
 
-	private cancel(): void {
+	private edit(): void {
+		this.submitted = true;
+		this.onSubmit({
+			newName: this.currentName,
+			cancelled: false,
+			edit: true,
+		});
+		this.close();
+	}
+
+	private annotate(): void {
+		this.hideError();
+
+		if (!this.currentName || this.currentName.trim() === '') {
+			this.showError('Name cannot be empty');
+			return;
+		}
+		if (!slugifyFileName(this.currentName, this.namePolicy)) {
+			this.showError('Name must contain valid characters');
+			return;
+		}
+
+		this.submitted = true;
 		this.onSubmit({
-			newName: '',
-			cancelled: true,
+			newName: this.currentName,
+			cancelled: false,
+			annotate: true,
 		});
 		this.close();
 	}
 
+	private cancel(): void {
+		this.close();
+	}
+
 	onClose(): void {
 		const { contentEl } = this;
 		contentEl.empty();
+		if (this.previewUrl) {
+			revokePreviewUrl(this.previewUrl);
+			this.previewUrl = null;
+		}
+
+		// Closing without renaming counts as skipping
+		if (!this.submitted) {
+			this.onSubmit({
+				newName: '',
+				cancelled: true,
+			});
+		}
 	}
 }
 
 /**
  * Open the rename modal and return the result
+ * @param namePolicy - File name policy the new path preview follows
+ * @param canEdit - Offer "Edit image" and "Annotate" buttons (the result then has edit or annotate set)
  */
 export function openRenameModal(
 	app: App,
-	imageFile: TFile,
-	suggestedName: string
+	imageFile: PreviewImage,
+	suggestedName: string,
+	namePolicy: FileNamePolicy,
+	sizeInfo?: ImageSizeInfo,
+	canEdit: boolean = false
 ): Promise<RenameResult> {
 	return new Promise((resolve) => {
-		const modal = new RenameModal(app, imageFile, suggestedName, resolve);
+		const modal = new RenameModal(app, imageFile, suggestedName, namePolicy, resolve, sizeInfo, canEdit);
 		modal.open();
 	});
 }
@@ -0,0 +1,211 @@
+/**
+ * Similar Images Modal
+ * Review groups of visually similar images and merge each group into one keeper file
+ */
+
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { HashedImage, SimilarImageService } from '../services/SimilarImageService';
+import { ReferenceService } from '../services/ReferenceService';
+import { formatFileSize } from '../utils/file-size';
+import { openConfirmModal } from './ConfirmModal';
+
+// Maximum differing hash bits (out of 64) per similarity level
+const SIMILARITY_THRESHOLDS: Record<string, number> = {
+	strict: 4,
+	normal: 8,
+	loose: 12,
+};
+
+export class SimilarImagesModal extends Modal {
+	private similarImageService: SimilarImageService;
+	private referenceService: ReferenceService;
+
+	private images: HashedImage[] = [];
+	private referenceIndex = new Map<string, TFile[]>();
+	private threshold = SIMILARITY_THRESHOLDS.normal ?? 8;
+	private groupsEl: HTMLElement | null = null;
+	private summaryEl: HTMLElement | null = null;
+	private failed = false; // Analysis failed; keep the error in the summary
+
+	constructor(app: App, similarImageService: SimilarImageService, referenceService: ReferenceService) {
+		super(app);
+		this.similarImageService = similarImageService;
+		this.referenceService = referenceService;
+	}
+
+	onOpen(): void {
+		const { contentEl, titleEl } = this;
+
+		this.modalEl.addClass('image-manager-similar-modal');
+		titleEl.setText('Similar images');
+
+		new Setting(contentEl)
+			.setName('Similarity')
+			.setDesc('How closely images must match to be grouped')
+			.addDropdown((dropdown) => {
+				dropdown
+					.addOption('strict', 'Strict')
+					.addOption('normal', 'Normal')
+					.addOption('loose', 'Loose')
+					.setValue('normal')
+					.onChange((value) => {
+						this.threshold = SIMILARITY_THRESHOLDS[value] ?? this.threshold;
+						this.renderGroups();
+					});
+			});
+
+		this.summaryEl = contentEl.createEl('p', { cls: 'image-manager-similar-summary' });
+		this.groupsEl = contentEl.createDiv({ cls: 'image-manager-similar-groups' });
+
+		void this.analyze();
+	}
+
+	/**
+	 * Hash all images and index references, then show the groups
+	 */
+	private async analyze(): Promise<void> {
+		this.summaryEl?.setText('Analyzing images...');
+
+		try {
+			this.images = await this.similarImageService.hashAllImages((done, total) => {
+				this.summaryEl?.setText(`Analyzing images... (${done}/${total})`);
+			});
+			this.summaryEl?.setText('Scanning notes for references...');
+			this.referenceIndex = await this.referenceService.buildReferenceIndex();
+		} catch (error) {
+			console.error('[Image Manager] Failed to analyze images:', error);
+			this.failed = true;
+			this.summaryEl?.setText('Failed to analyze images.');
+			new Notice('Failed to analyze images');
+			return;
+		}
+
+		this.renderGroups();
+	}
+
+	private renderGroups(): void {
+		const groupsEl = this.groupsEl;
+		if (!groupsEl || this.failed) {
+			return;
+		}
+		groupsEl.empty();
+
+		const groups = this.similarImageService.groupSimilar(this.images, this.threshold);
+		this.summaryEl?.setText(groups.length === 0
+			? `No similar images found among ${this.images.length} image(s).`
+			: `Found ${groups.length} group(s) of similar images. Choose the file to keep in each group.`);
+
+		groups.forEach((group, index) => this.renderGroup(groupsEl, group, index));
+	}
+
+	private renderGroup(containerEl: HTMLElement, group: HashedImage[], index: number): void {
+		const groupEl = containerEl.createDiv({ cls: 'image-manager-similar-group' });
+		let keeper = group[0]?.file ?? null;
+
+		const gridEl = groupEl.createDiv({ cls: 'image-manager-similar-grid' });
+		for (const image of group) {
+			const cardEl = gridEl.createEl('label', { cls: 'image-manager-similar-card' });
+
+			const radio = cardEl.createEl('input', {
+				type: 'radio',
+				attr: { name: `image-manager-keeper-${index}` },
+			});
+			radio.checked = image.file === keeper;
+			radio.addEventListener('change', () => {
+				if (radio.checked) {
+					keeper = image.file;
+				}
+			});
+
+			cardEl.createEl('img', {
+				cls: 'image-manager-similar-thumb',
+				attr: { src: this.app.vault.getResourcePath(image.file), alt: image.file.name },
+			});
+			cardEl.createDiv({ cls: 'image-manager-similar-name', text: image.file.name });
+			cardEl.createDiv({ cls: 'image-manager-similar-meta', text: image.file.parent?.path || '/' });
+			cardEl.createDiv({
+				cls: 'image-manager-similar-meta',
+				text: `${image.width}×${image.height} · ${formatFileSize(image.file.stat.size)}`,
+			});
+			const usage = this.referenceIndex.get(image.file.path)?.length ?? 0;
+			cardEl.createDiv({ cls: 'image-manager-similar-meta', text: `Used in ${usage} note(s)` });
+		}
+
+		new Setting(groupEl)
+			.addButton((btn) => {
+				btn
+					.setButtonText('Merge into selected')
+					.setCta()
+					.onClick(async () => {
+						if (!keeper) {
+							return;
+						}
+						const merged = await this.mergeGroup(keeper, group.map((image) => image.file));
+						if (merged) {
+							this.images = this.images.filter((image) => {
+								return image.file === keeper || !group.includes(image);
+							});
+							groupEl.remove();
+						}
+					});
+			})
+			.addButton((btn) => {
+				btn
+					.setButtonText('Skip')
+					.onClick(() => groupEl.remove());
+			});
+	}
+
+	/**
+	 * Confirm and merge a group into the keeper
+	 * @returns true if the group was merged
+	 */
+	private async mergeGroup(keeper: TFile, files: TFile[]): Promise<boolean> {
+		const duplicates = files.filter((file) => file !== keeper);
+		const result = await openConfirmModal(
+			this.app,
+			'Merge Similar Images',
+			`Keep ${keeper.path} and move ${duplicates.length} other image(s) to trash? All references in your notes will be updated to point to the kept image.`,
+			'Merge',
+			'Cancel'
+		);
+		if (!result.confirmed) {
+			return false;
+		}
+
+		try {
+			const modified = await this.similarImageService.mergeGroup(keeper, duplicates);
+
+			// The keeper now has all the duplicates' references
+			const notes = new Set(this.referenceIndex.get(keeper.path) ?? []);
+			for (const duplicate of duplicates) {
+				this.referenceIndex.get(duplicate.path)?.forEach((note) => notes.add(note));
+				this.referenceIndex.delete(duplicate.path);
+			}
+			this.referenceIndex.set(keeper.path, [...notes]);
+
+			new Notice(`Merged ${duplicates.length} image(s) into ${keeper.name}, updated ${modified} note(s)`);
+			return true;
+		} catch (error) {
+			console.error('[Image Manager] Failed to merge similar images:', error);
+			new Notice('Failed to merge images');
+			return false;
+		}
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
+
+/**
+ * Open the similar images review modal
+ */
+export function openSimilarImagesModal(
+	app: App,
+	similarImageService: SimilarImageService,
+	referenceService: ReferenceService
+): void {
+	new SimilarImagesModal(app, similarImageService, referenceService).open();
+}
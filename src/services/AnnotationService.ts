@@ -0,0 +1,263 @@
+/**
+ * Annotation Service
+ * Non-destructive image annotation: the original is kept as "<name>.original.<ext>", the annotations
+ * in a "<name>.annotations.json" sidecar, and the image notes link to holds the flattened render
+ */
+
+import { App, Notice, TAbstractFile, TFile } from 'obsidian';
+import { Annotation, AnnotationDocument, ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { openAnnotationEditorModal } from '../modals/AnnotationEditorModal';
+import { createCanvas, decodeImage, getContext2d } from '../utils/image-canvas';
+import { encodeTransformed, isEditableImage } from '../utils/image-transform';
+import {
+	drawAnnotations,
+	getAnnotationOriginalPath,
+	getAnnotationSidecarPath,
+	isAnnotationOriginal,
+	resolveAnnotationFile,
+} from '../utils/annotations';
+
+const SIDECAR_VERSION = 1;
+
+export class AnnotationService {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Check whether an image can be opened in the annotation editor
+	 */
+	canAnnotate(file: TFile): boolean {
+		return this.storageManager.isImageFile(file) && !isAnnotationOriginal(file) && file.extension.toLowerCase() !== 'svg';
+	}
+
+	/**
+	 * Load an image's annotation sidecar, or null if it has never been annotated
+	 */
+	async loadDocument(imagePath: string): Promise<AnnotationDocument | null> {
+		const sidecar = this.app.vault.getAbstractFileByPath(getAnnotationSidecarPath(imagePath));
+		if (!(sidecar instanceof TFile)) {
+			return null;
+		}
+
+		try {
+			const document = JSON.parse(await this.app.vault.read(sidecar)) as AnnotationDocument;
+			return Array.isArray(document.annotations) && typeof document.original === 'string' ? document : null;
+		} catch (error) {
+			console.warn(`[Image Manager] Ignoring unreadable annotation sidecar ${sidecar.path}:`, error);
+			return null;
+		}
+	}
+
+	/**
+	 * Open the annotation editor for an image and save the result
+	 * Annotations are drawn over the kept original, so earlier annotations stay editable
+	 */
+	async annotate(file: TFile): Promise<void> {
+		if (!this.canAnnotate(file)) {
+			new Notice(`${file.name} cannot be annotated`);
+			return;
+		}
+
+		const document = await this.loadDocument(file.path);
+		let original: TFile | null = null;
+		if (document) {
+			const originalFile = this.app.vault.getAbstractFileByPath(resolveAnnotationFile(file.path, document.original));
+			original = originalFile instanceof TFile ? originalFile : null;
+			if (!original) {
+				new Notice(`The original of ${file.name} is missing; annotating the current image instead`);
+			}
+		}
+
+		const data = await this.app.vault.readBinary(original ?? file);
+		if (!isEditableImage(data, file.extension)) {
+			new Notice(`${file.name} cannot be annotated`);
+			return;
+		}
+
+		const mimeType = this.storageManager.getMimeTypeFromExtension(file.extension);
+		const result = await openAnnotationEditorModal(this.app, data, mimeType, original ? document?.annotations ?? [] : []);
+		if (result.cancelled) {
+			return;
+		}
+
+		try {
+			if (result.annotations.length === 0) {
+				await this.removeAnnotations(file, data, original);
+			} else {
+				await this.saveAnnotations(file, data, mimeType, result.annotations, original);
+			}
+		} catch (error) {
+			console.error('[Image Manager] Failed to save annotations:', error);
+			new Notice(`Failed to save annotations: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	/**
+	 * Write the flattened render, keeping the original and the sidecar next to the image
+	 * @param original - The kept original, or null to keep the current bytes as the original
+	 */
+	private async saveAnnotations(
+		file: TFile,
+		originalData: ArrayBuffer,
+		mimeType: string,
+		annotations: Annotation[],
+		original: TFile | null
+	): Promise<void> {
+		const rendered = await this.render(originalData, mimeType, annotations);
+		if (rendered.mimeType !== mimeType) {
+			new Notice(`Annotated ${file.extension} images cannot be saved on this device`);
+			return;
+		}
+
+		// Keep the original before overwriting the image
+		if (!original) {
+			original = await this.app.vault.createBinary(this.getAvailableOriginalPath(file.path), originalData);
+		}
+
+		await this.writeDocument(file.path, {
+			version: SIDECAR_VERSION,
+			original: original.name,
+			annotations,
+		});
+		await this.app.vault.modifyBinary(file, rendered.data);
+
+		this.log(`Saved ${annotations.length} annotation(s) for ${file.path}`);
+		new Notice(`Annotations saved: ${file.name}`);
+	}
+
+	/**
+	 * Restore the original bytes and remove the kept original and the sidecar
+	 */
+	private async removeAnnotations(file: TFile, originalData: ArrayBuffer, original: TFile | null): Promise<void> {
+		if (!original) {
+			return;
+		}
+
+		await this.app.vault.modifyBinary(file, originalData);
+		await this.trashCompanions(file.path, original);
+		new Notice(`Annotations removed: ${file.name}`);
+	}
+
+	/**
+	 * Draw annotations over the original and encode the result in the original format
+	 */
+	private async render(
+		data: ArrayBuffer,
+		mimeType: string,
+		annotations: Annotation[]
+	): Promise<{ data: ArrayBuffer; mimeType: string }> {
+		const bitmap = await decodeImage(data, mimeType);
+		try {
+			const canvas = createCanvas(bitmap.width, bitmap.height);
+			const ctx = getContext2d(canvas);
+			ctx.drawImage(bitmap, 0, 0);
+			drawAnnotations(ctx, bitmap, annotations, bitmap.width, bitmap.height);
+			return await encodeTransformed(canvas, mimeType, this.settings.optimizeQuality / 100);
+		} finally {
+			bitmap.close();
+		}
+	}
+
+	/**
+	 * Create or overwrite an image's sidecar
+	 */
+	private async writeDocument(imagePath: string, document: AnnotationDocument): Promise<void> {
+		const path = getAnnotationSidecarPath(imagePath);
+		const content = JSON.stringify(document, null, 2);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+		} else {
+			await this.app.vault.create(path, content);
+		}
+	}
+
+	/**
+	 * Move the sidecar and the kept original along with a renamed or moved image
+	 */
+	async handleRename(file: TAbstractFile, oldPath: string): Promise<void> {
+		if (!(file instanceof TFile) || !this.storageManager.isImageFile(file) || isAnnotationOriginal(file)) {
+			return;
+		}
+
+		const document = await this.loadDocument(oldPath);
+		const sidecar = this.app.vault.getAbstractFileByPath(getAnnotationSidecarPath(oldPath));
+		if (!document || !(sidecar instanceof TFile)) {
+			return;
+		}
+
+		const original = this.app.vault.getAbstractFileByPath(resolveAnnotationFile(oldPath, document.original));
+		if (original instanceof TFile) {
+			// The sidecar names the original relative to the image's folder, so it always moves too
+			await this.app.fileManager.renameFile(original, this.getAvailableOriginalPath(file.path));
+			document.original = original.name;
+		}
+
+		await this.app.fileManager.renameFile(sidecar, getAnnotationSidecarPath(file.path));
+		await this.writeDocument(file.path, document);
+		this.log(`Moved annotations from ${oldPath} to ${file.path}`);
+	}
+
+	/**
+	 * Get a free path for an image's kept original, numbered before the suffix if the default is taken
+	 */
+	private getAvailableOriginalPath(imagePath: string): string {
+		let originalPath = getAnnotationOriginalPath(imagePath);
+		for (let n = 1; this.app.vault.getAbstractFileByPath(originalPath); n++) {
+			originalPath = getAnnotationOriginalPath(imagePath, n);
+		}
+		return originalPath;
+	}
+
+	/**
+	 * Trash the sidecar and the kept original of a deleted image
+	 */
+	async handleDelete(file: TAbstractFile): Promise<void> {
+		if (!(file instanceof TFile) || !this.storageManager.isImageFile(file) || isAnnotationOriginal(file)) {
+			return;
+		}
+
+		const document = await this.loadDocument(file.path);
+		if (!document) {
+			return;
+		}
+
+		const original = this.app.vault.getAbstractFileByPath(resolveAnnotationFile(file.path, document.original));
+		await this.trashCompanions(file.path, original instanceof TFile ? original : null);
+		this.log(`Trashed annotations of deleted ${file.path}`);
+	}
+
+	private async trashCompanions(imagePath: string, original: TFile | null): Promise<void> {
+		if (original) {
+			await this.app.fileManager.trashFile(original);
+		}
+		const sidecar = this.app.vault.getAbstractFileByPath(getAnnotationSidecarPath(imagePath));
+		if (sidecar instanceof TFile) {
+			await this.app.fileManager.trashFile(sidecar);
+		}
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -0,0 +1,157 @@
+/**
+ * Attachment Mover Service
+ * Moves a note's images along with it when the attachment folder is relative to the note
+ * (same folder, subfolder or a relative attachment folder property), then optionally renames them
+ * after the note's new name
+ */
+
+import { App, debounce, Notice, TAbstractFile, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceService } from './ReferenceService';
+import { ImageRenamer } from './ImageRenamer';
+
+// Wait for renames to settle: folder moves fire one event per file, and Obsidian
+// updates the moved note's own links right after the rename
+const SETTLE_DELAY = 1000;
+
+export class AttachmentMover {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+	private imageRenamer: ImageRenamer;
+
+	// New note path -> path before the first pending rename
+	private pending = new Map<string, string>();
+	private scheduleFlush = debounce(() => { void this.flush(); }, SETTLE_DELAY, true);
+
+	constructor(
+		app: App,
+		settings: ImageManagerSettings,
+		storageManager: StorageManager,
+		referenceService: ReferenceService,
+		imageRenamer: ImageRenamer
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+		this.imageRenamer = imageRenamer;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Queue a renamed or moved note for moving and renaming its attachments
+	 */
+	handleRename(file: TAbstractFile, oldPath: string): void {
+		if (!this.settings.moveAttachmentsWithNote && !this.settings.renameImagesWithNote) {
+			return;
+		}
+		if (!(file instanceof TFile) || !this.isNote(file)) {
+			return;
+		}
+
+		// A note renamed again before the queue ran keeps its first old path
+		const firstPath = this.pending.get(oldPath) ?? oldPath;
+		this.pending.delete(oldPath);
+		if (firstPath !== file.path) {
+			this.pending.set(file.path, firstPath);
+		}
+		this.scheduleFlush();
+	}
+
+	private async flush(): Promise<void> {
+		const moves = [...this.pending];
+		this.pending.clear();
+
+		for (const [path, oldPath] of moves) {
+			const note = this.app.vault.getAbstractFileByPath(path);
+			if (!(note instanceof TFile)) {
+				continue;
+			}
+			try {
+				if (this.settings.moveAttachmentsWithNote) {
+					await this.moveAttachments(note, oldPath);
+				}
+				if (this.settings.renameImagesWithNote) {
+					await this.imageRenamer.renameImages(note, oldPath);
+				}
+			} catch (error) {
+				console.error(`[Image Manager] Failed to update attachments of ${note.path}:`, error);
+				new Notice(`Failed to update attachments of ${note.name}: ${error instanceof Error ? error.message : String(error)}`);
+			}
+		}
+	}
+
+	/**
+	 * Move the images only this note uses from its old attachment folder to the new one
+	 * Images other notes also use stay where they are and are reported
+	 */
+	async moveAttachments(note: TFile, oldPath: string): Promise<void> {
+		const folders = await this.storageManager.getMovedAttachmentFolders(note, oldPath);
+		if (!folders || folders.from === folders.to) {
+			return;
+		}
+
+		// Links may still be written relative to the old location (MDX, or link updating turned off)
+		const content = await this.app.vault.read(note);
+		const targets = new Map<string, TFile>();
+		for (const reference of this.referenceService.extractReferences(content)) {
+			const target = this.referenceService.resolveReference(reference.linkPath, note.path) ??
+				this.referenceService.resolveReference(reference.linkPath, oldPath);
+			if (target && target.parent?.path === folders.from && this.storageManager.isImageFile(target)) {
+				targets.set(reference.linkPath, target);
+			}
+		}
+		if (targets.size === 0) {
+			return;
+		}
+
+		const { owned, shared } = await this.referenceService.partitionByOwner(note, [...new Set(targets.values())]);
+
+		if (owned.length > 0) {
+			await this.storageManager.ensureFolderExists(folders.to);
+			for (const image of owned) {
+				const path = this.storageManager.getAvailablePathInFolder(folders.to, image.basename, image.extension);
+				// Links are rewritten below, so Obsidian's link updating isn't needed
+				await this.app.vault.rename(image, path);
+			}
+
+			for (const [linkPath, image] of targets) {
+				if (shared.includes(image)) {
+					targets.delete(linkPath);
+				}
+			}
+			await this.app.vault.process(note, (current) => this.referenceService.rewriteLinkPaths(current, note, targets));
+
+			this.log(`Moved ${owned.length} image(s) of ${note.path} from "${folders.from}" to "${folders.to}"`);
+			new Notice(`Moved ${owned.length} image(s) with ${note.name}`);
+		}
+
+		if (shared.length > 0) {
+			const names = shared.slice(0, 5).map((image) => image.name).join(', ');
+			const more = shared.length > 5 ? ` and ${shared.length - 5} more` : '';
+			new Notice(`Left ${shared.length} image(s) in ${folders.from || '/'} because other notes use them: ${names}${more}`, 8000);
+		}
+	}
+
+	private isNote(file: TFile): boolean {
+		return file.extension === 'md' || this.settings.supportedExtensions.includes(file.extension);
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
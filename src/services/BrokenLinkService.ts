@@ -0,0 +1,210 @@
+/**
+ * Broken Link Service
+ * Finds image references that no longer resolve and suggests the file they most likely meant,
+ * by content hash (renamed outside Obsidian) or by a similar file name
+ */
+
+import { App, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceKind, ReferenceService } from './ReferenceService';
+import { ImageHashIndex } from './ImageHashIndex';
+import { IMAGE_EXTENSIONS } from '../utils/file-types';
+import { getBaseName, getFolderPath, resolveRelativePath } from '../utils/path';
+
+// Name similarity (0-1) a file needs to be suggested
+const MIN_NAME_SIMILARITY = 0.5;
+const MAX_CANDIDATES = 5;
+
+/**
+ * An image reference that doesn't resolve, with the files it may have meant (best first)
+ */
+export interface BrokenImageLink {
+	note: TFile;
+	linkPath: string; // As written; every reference with this link path in the note is broken
+	kind: ReferenceKind;
+	candidates: TFile[];
+}
+
+export class BrokenLinkService {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+	private imageHashIndex: ImageHashIndex;
+
+	constructor(
+		app: App,
+		settings: ImageManagerSettings,
+		storageManager: StorageManager,
+		referenceService: ReferenceService,
+		imageHashIndex: ImageHashIndex
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+		this.imageHashIndex = imageHashIndex;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Find unresolved image references in the bodies and frontmatter of all notes
+	 */
+	async findBrokenLinks(onProgress?: (done: number, total: number) => void): Promise<BrokenImageLink[]> {
+		const images = this.app.vault.getFiles().filter((file) => this.storageManager.isImageFile(file));
+		const notes = this.referenceService.getNoteFiles();
+		const broken: BrokenImageLink[] = [];
+
+		for (let i = 0; i < notes.length; i++) {
+			const note = notes[i];
+			if (!note) {
+				continue;
+			}
+			const content = await this.app.vault.cachedRead(note);
+			const bannerLinkPaths = await this.referenceService.getBannerLinkPaths(note);
+			const seen = new Set<string>();
+
+			for (const reference of this.referenceService.extractReferences(content)) {
+				const { linkPath } = reference;
+				if (seen.has(linkPath) || (!this.isImagePath(linkPath) && !bannerLinkPaths.includes(linkPath))) {
+					continue;
+				}
+				seen.add(linkPath);
+				if (this.referenceService.resolveReference(linkPath, note.path)) {
+					continue;
+				}
+				broken.push({
+					note,
+					linkPath,
+					kind: reference.kind,
+					candidates: await this.findCandidates(linkPath, note, images),
+				});
+			}
+			onProgress?.(i + 1, notes.length);
+		}
+
+		this.log(`Found ${broken.length} broken image link(s)`);
+		return broken;
+	}
+
+	/**
+	 * Point every reference with the broken link path in the note at the chosen file
+	 */
+	async fixLink(link: BrokenImageLink, target: TFile): Promise<void> {
+		const targets = new Map([[link.linkPath, target]]);
+		await this.app.vault.process(link.note, (content) => this.referenceService.rewriteLinkPaths(content, link.note, targets));
+		this.log(`Fixed "${link.linkPath}" in ${link.note.path} -> ${target.path}`);
+	}
+
+	/**
+	 * Files with the same content as the missing image first, then files with a similar name
+	 */
+	private async findCandidates(linkPath: string, note: TFile, images: TFile[]): Promise<TFile[]> {
+		const path = this.cleanLinkPath(linkPath);
+		const name = path.substring(path.lastIndexOf('/') + 1);
+
+		// Where the link pointed: a vault path for absolute and relative links, otherwise just the name
+		let missingPath = name;
+		if (path.startsWith('/')) {
+			missingPath = path.slice(1);
+		} else if (path.includes('/')) {
+			missingPath = resolveRelativePath(getFolderPath(note.path), path) ?? name;
+		}
+
+		const candidates = await this.imageHashIndex.findRenamed(missingPath);
+		if (missingPath !== name && candidates.length === 0) {
+			candidates.push(...await this.imageHashIndex.findRenamed(name));
+		}
+
+		const wanted = this.normalizeName(getBaseName(name));
+		const extension = name.includes('.') ? name.substring(name.lastIndexOf('.') + 1).toLowerCase() : '';
+		const similar = images
+			.filter((file) => !candidates.includes(file))
+			.map((file) => {
+				let score = similarity(wanted, this.normalizeName(file.basename));
+				if (extension && file.extension.toLowerCase() === extension) {
+					score += 0.05; // Prefer the same format on ties
+				}
+				return { file, score };
+			})
+			.filter(({ score }) => score >= MIN_NAME_SIMILARITY)
+			.sort((a, b) => b.score - a.score)
+			.map(({ file }) => file);
+
+		return [...candidates, ...similar].slice(0, MAX_CANDIDATES);
+	}
+
+	/**
+	 * Check whether a link path names an image file
+	 */
+	private isImagePath(linkPath: string): boolean {
+		const path = this.cleanLinkPath(linkPath);
+		const extension = path.substring(path.lastIndexOf('.') + 1).toLowerCase();
+		return path.includes('.') && IMAGE_EXTENSIONS.includes(extension);
+	}
+
+	/**
+	 * Link path without #subpath or ?query, decoded
+	 */
+	private cleanLinkPath(linkPath: string): string {
+		const path = linkPath.split('#')[0]?.split('?')[0] ?? '';
+		try {
+			return decodeURI(path);
+		} catch {
+			return path;
+		}
+	}
+
+	/**
+	 * Lowercase a name and reduce separators to single spaces ("My_Image-01" -> "my image 01")
+	 */
+	private normalizeName(name: string): string {
+		return name.toLowerCase().replace(/[\s_.-]+/g, ' ').trim();
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
+
+/**
+ * Similarity of two strings from 0 to 1 (1 minus the edit distance over the longer length)
+ * A name contained in the other (e.g. "diagram" in "diagram 1") scores at least 0.8
+ */
+function similarity(a: string, b: string): number {
+	if (!a || !b) {
+		return 0;
+	}
+	if (a === b) {
+		return 1;
+	}
+	const distance = levenshtein(a, b);
+	const score = 1 - distance / Math.max(a.length, b.length);
+	const contained = Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a));
+	return contained ? Math.max(score, 0.8) : score;
+}
+
+function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, (previous[j - 1] ?? 0) + cost);
+		}
+		previous = current;
+	}
+	return previous[b.length] ?? 0;
+}
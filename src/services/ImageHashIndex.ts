@@ -0,0 +1,270 @@
+/**
+ * Image Hash Index Service
+ * Content-hash index of vault images, used to detect identical images on insert
+ * and to find where a missing image went when it was renamed outside Obsidian
+ */
+
+import { App, TAbstractFile, TFile, debounce } from 'obsidian';
+import { DuplicateImageBehavior, ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { sha256 } from '../utils/hash';
+
+interface HashEntry {
+	hash: string;
+	mtime: number;
+	size: number;
+}
+
+interface PersistedHashIndex {
+	version: number;
+	entries: Record<string, HashEntry>;
+	removed?: Record<string, HashEntry>;
+}
+
+const INDEX_VERSION = 1;
+
+// Hashes of deleted images are kept for this many files, newest first
+const MAX_REMOVED = 1000;
+
+export class ImageHashIndex {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private indexPath: string;
+
+	private entries = new Map<string, HashEntry>();
+	private removed = new Map<string, HashEntry>(); // Deleted (or renamed outside Obsidian) images, oldest first
+	private ready: Promise<void> | null = null;
+	private requestSave = debounce(() => void this.save(), 2000, true);
+
+	/**
+	 * @param indexPath - Vault-relative path of the persisted index (inside the plugin folder)
+	 */
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager, indexPath: string) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.indexPath = indexPath;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Whether inserted images are checked against the index
+	 */
+	isEnabled(): boolean {
+		return this.settings.duplicateImageBehavior !== DuplicateImageBehavior.Copy;
+	}
+
+	/**
+	 * Load the persisted index and hash any new or changed images
+	 * Only runs once; later calls wait for the first build
+	 */
+	initialize(): Promise<void> {
+		if (!this.ready) {
+			this.ready = this.build();
+		}
+		return this.ready;
+	}
+
+	/**
+	 * Find an existing vault image with identical content
+	 */
+	async findDuplicate(data: ArrayBuffer): Promise<TFile | null> {
+		await this.initialize();
+		const hash = await sha256(data);
+
+		for (const [path, entry] of this.entries) {
+			if (entry.hash !== hash) {
+				continue;
+			}
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile && file.stat.size === entry.size) {
+				return file;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Find images with the same content as a deleted image
+	 * An image renamed outside Obsidian shows up as a delete and a create, so this finds its new name
+	 * @param pathOrName - Path of the deleted image, or just its name
+	 */
+	async findRenamed(pathOrName: string): Promise<TFile[]> {
+		await this.initialize();
+		const byName = !pathOrName.includes('/');
+		const hashes = new Set<string>();
+		for (const [path, entry] of this.removed) {
+			const name = path.substring(path.lastIndexOf('/') + 1);
+			if (path === pathOrName || (byName && name.toLowerCase() === pathOrName.toLowerCase())) {
+				hashes.add(entry.hash);
+			}
+		}
+		if (hashes.size === 0) {
+			return [];
+		}
+
+		const files: TFile[] = [];
+		for (const [path, entry] of this.entries) {
+			const file = hashes.has(entry.hash) ? this.app.vault.getAbstractFileByPath(path) : null;
+			if (file instanceof TFile && file.stat.size === entry.size) {
+				files.push(file);
+			}
+		}
+		return files;
+	}
+
+	/**
+	 * Vault create/modify handler
+	 */
+	handleChange(file: TAbstractFile): void {
+		// Nothing to maintain until the index is built; the build picks up changes itself
+		if (!this.ready || !(file instanceof TFile) || !this.storageManager.isImageFile(file)) {
+			return;
+		}
+		void this.indexFile(file);
+	}
+
+	/**
+	 * Vault delete handler
+	 */
+	handleDelete(file: TAbstractFile): void {
+		const entry = this.entries.get(file.path);
+		if (entry) {
+			this.entries.delete(file.path);
+			this.remember(file.path, entry);
+			this.requestSave();
+		}
+	}
+
+	/**
+	 * Vault rename handler
+	 */
+	handleRename(file: TAbstractFile, oldPath: string): void {
+		const entry = this.entries.get(oldPath);
+		if (!entry) {
+			this.handleChange(file);
+			return;
+		}
+
+		this.entries.delete(oldPath);
+		if (file instanceof TFile && this.storageManager.isImageFile(file)) {
+			this.entries.set(file.path, entry);
+		}
+		this.requestSave();
+	}
+
+	/**
+	 * Load the persisted index, then bring it up to date with the vault
+	 */
+	private async build(): Promise<void> {
+		await this.load();
+
+		const images = this.app.vault.getFiles().filter((file) => this.storageManager.isImageFile(file));
+		const existingPaths = new Set(images.map((file) => file.path));
+
+		// Drop entries for files deleted while the plugin was not running
+		for (const [path, entry] of [...this.entries]) {
+			if (!existingPaths.has(path)) {
+				this.entries.delete(path);
+				this.remember(path, entry);
+			}
+		}
+
+		let hashed = 0;
+		for (const file of images) {
+			const entry = this.entries.get(file.path);
+			if (entry && entry.mtime === file.stat.mtime && entry.size === file.stat.size) {
+				continue;
+			}
+			await this.indexFile(file, false);
+			hashed++;
+		}
+
+		await this.save();
+		this.log(`Image hash index ready (${this.entries.size} images, ${hashed} hashed)`);
+	}
+
+	/**
+	 * Hash a single image and store it in the index
+	 */
+	private async indexFile(file: TFile, save: boolean = true): Promise<void> {
+		try {
+			const data = await this.app.vault.readBinary(file);
+			this.entries.set(file.path, {
+				hash: await sha256(data),
+				mtime: file.stat.mtime,
+				size: file.stat.size,
+			});
+			if (save) {
+				this.requestSave();
+			}
+		} catch (error) {
+			console.warn(`[Image Manager] Failed to hash ${file.path}:`, error);
+		}
+	}
+
+	/**
+	 * Keep the hash of a deleted image, forgetting the oldest beyond MAX_REMOVED
+	 */
+	private remember(path: string, entry: HashEntry): void {
+		this.removed.delete(path);
+		this.removed.set(path, entry);
+		for (const oldest of this.removed.keys()) {
+			if (this.removed.size <= MAX_REMOVED) {
+				break;
+			}
+			this.removed.delete(oldest);
+		}
+	}
+
+	/**
+	 * Read the persisted index from the plugin folder
+	 */
+	private async load(): Promise<void> {
+		try {
+			if (!(await this.app.vault.adapter.exists(this.indexPath))) {
+				return;
+			}
+			const data = JSON.parse(await this.app.vault.adapter.read(this.indexPath)) as PersistedHashIndex;
+			if (data.version !== INDEX_VERSION) {
+				return;
+			}
+			this.entries = new Map(Object.entries(data.entries));
+			this.removed = new Map(Object.entries(data.removed ?? {}));
+		} catch (error) {
+			console.warn('[Image Manager] Failed to load image hash index, rebuilding:', error);
+		}
+	}
+
+	/**
+	 * Write the index to the plugin folder
+	 */
+	private async save(): Promise<void> {
+		const data: PersistedHashIndex = {
+			version: INDEX_VERSION,
+			entries: Object.fromEntries(this.entries),
+			removed: Object.fromEntries(this.removed),
+		};
+		try {
+			await this.app.vault.adapter.write(this.indexPath, JSON.stringify(data));
+		} catch (error) {
+			console.warn('[Image Manager] Failed to save image hash index:', error);
+		}
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -0,0 +1,249 @@
+/**
+ * Image Optimizer Service
+ * Downscales, rotates and re-encodes incoming images (WebP/AVIF/JPEG) before they are saved to the vault
+ */
+
+import { App, normalizePath } from 'obsidian';
+import { ImageManagerSettings, ImageSource, MetadataField, OptimizeFormat } from '../types';
+import { StorageManager } from './StorageManager';
+import { createCanvas, decodeImage, encodeCanvas, getContext2d, supportsAlpha } from '../utils/image-canvas';
+import { isAnimatedImage } from '../utils/image-format';
+import { readExifOrientation } from '../utils/image-metadata';
+
+/**
+ * Image bytes ready to be written to the vault
+ */
+export interface PreparedImage {
+	data: ArrayBuffer;
+	extension: string;
+	originalSize: number;
+	optimized: boolean;
+	resized: boolean;
+	rotated: boolean; // EXIF orientation was baked into the pixels
+}
+
+// Vector formats are never re-encoded
+const PASSTHROUGH_EXTENSIONS = ['svg'];
+
+export class ImageOptimizer {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Check whether optimization is enabled for an image source
+	 */
+	isEnabledFor(source: ImageSource): boolean {
+		if (!this.settings.enableOptimization) {
+			return false;
+		}
+
+		switch (source) {
+			case ImageSource.Paste:
+				return this.settings.optimizeOnPaste;
+			case ImageSource.Drop:
+				return this.settings.optimizeOnDrop;
+			case ImageSource.FilePicker:
+				return this.settings.optimizeOnFilePicker;
+			case ImageSource.Remote:
+				return this.settings.optimizeOnRemoteDownload;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Get the maximum dimensions for images saved to an attachment folder
+	 * The most specific folder override wins over the global limits
+	 * Returns null if resizing is disabled or no limit applies
+	 */
+	getResizeLimits(folder: string): { maxWidth: number; maxHeight: number } | null {
+		if (!this.settings.enableResize) {
+			return null;
+		}
+
+		let limits = { maxWidth: this.settings.maxImageWidth, maxHeight: this.settings.maxImageHeight };
+		let matchedLength = -1;
+		for (const override of this.settings.resizeOverrides) {
+			const overrideFolder = normalizePath(override.folder);
+			const matches = folder === overrideFolder || folder.startsWith(`${overrideFolder}/`);
+			if (matches && overrideFolder.length > matchedLength) {
+				limits = { maxWidth: override.maxWidth, maxHeight: override.maxHeight };
+				matchedLength = overrideFolder.length;
+			}
+		}
+
+		if (limits.maxWidth <= 0 && limits.maxHeight <= 0) {
+			return null;
+		}
+		return limits;
+	}
+
+	/**
+	 * Resize, rotate and/or optimize image bytes according to settings
+	 * Images are only ever downscaled. EXIF orientation is applied to the pixels so the
+	 * image displays upright without the tag. Falls back to the original bytes if encoding
+	 * fails, is unsupported, or (optionally) produces a larger file
+	 * @param folder - Attachment folder the image will be saved to (for resize overrides)
+	 */
+	async optimize(data: ArrayBuffer, extension: string, source: ImageSource, folder: string): Promise<PreparedImage> {
+		const original: PreparedImage = {
+			data,
+			extension,
+			originalSize: data.byteLength,
+			optimized: false,
+			resized: false,
+			rotated: false,
+		};
+
+		// Vector and animated images would lose their content on a canvas round trip
+		if (PASSTHROUGH_EXTENSIONS.includes(extension.toLowerCase()) || isAnimatedImage(data, extension)) {
+			return original;
+		}
+
+		const reencode = this.isEnabledFor(source);
+		const limits = this.getResizeLimits(folder);
+		// Decoding applies the orientation, so any re-encode bakes it in. Photos are always rotated when
+		// metadata stripping would remove the tag, or they would end up sideways
+		const stripsOrientation = this.settings.stripMetadata && !this.settings.keepMetadataFields.includes(MetadataField.Orientation);
+		const rotated = (this.settings.bakeOrientation || stripsOrientation) && readExifOrientation(data, extension) !== 1;
+		if (!reencode && !limits && !rotated) {
+			return original;
+		}
+
+		const sourceMimeType = this.storageManager.getMimeTypeFromExtension(extension);
+		const targetExtension = reencode ? this.getTargetExtension(extension) : extension.toLowerCase();
+
+		try {
+			const bitmap = await decodeImage(data, sourceMimeType);
+			const scale = limits ? this.getScale(bitmap.width, bitmap.height, limits) : 1;
+			const resized = scale < 1;
+
+			// Nothing to do: no re-encoding requested, already upright and within limits
+			if (!reencode && !resized && !rotated) {
+				bitmap.close();
+				return original;
+			}
+
+			const canvas = createCanvas(bitmap.width * scale, bitmap.height * scale);
+			const ctx = getContext2d(canvas);
+			ctx.imageSmoothingQuality = 'high';
+
+			// If the target format can't be encoded here, a resize or rotation is still applied
+			// in the original format, or PNG for formats canvas can't write (GIF, BMP, TIFF)
+			const candidates = resized || rotated
+				? [...new Set([targetExtension, extension.toLowerCase(), 'png'])]
+				: [targetExtension];
+			let encoded: ArrayBuffer | null = null;
+			let encodedExtension = targetExtension;
+			for (const candidate of candidates) {
+				encoded = await this.encode(canvas, ctx, bitmap, candidate);
+				if (encoded) {
+					encodedExtension = candidate;
+					break;
+				}
+				this.log(`Encoding to ${candidate} is not supported on this platform`);
+			}
+			bitmap.close();
+
+			if (!encoded) {
+				return original;
+			}
+
+			if (!resized && !rotated && this.settings.keepOriginalIfLarger && encoded.byteLength >= data.byteLength) {
+				this.log('Optimized image is not smaller, keeping original', {
+					originalSize: data.byteLength,
+					optimizedSize: encoded.byteLength,
+				});
+				return original;
+			}
+
+			return {
+				data: encoded,
+				extension: encodedExtension,
+				originalSize: data.byteLength,
+				optimized: true,
+				resized,
+				rotated,
+			};
+		} catch (error) {
+			console.warn('[Image Manager] Image optimization failed, keeping original:', error);
+			return original;
+		}
+	}
+
+	/**
+	 * Draw a bitmap onto the canvas and encode it
+	 */
+	private async encode(
+		canvas: HTMLCanvasElement,
+		ctx: CanvasRenderingContext2D,
+		bitmap: ImageBitmap,
+		extension: string
+	): Promise<ArrayBuffer | null> {
+		const mimeType = this.storageManager.getMimeTypeFromExtension(extension);
+
+		ctx.clearRect(0, 0, canvas.width, canvas.height);
+		// Formats without alpha would turn transparent pixels black
+		if (!supportsAlpha(mimeType)) {
+			ctx.fillStyle = '#ffffff';
+			ctx.fillRect(0, 0, canvas.width, canvas.height);
+		}
+		ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+		return await encodeCanvas(canvas, mimeType, this.settings.optimizeQuality / 100);
+	}
+
+	/**
+	 * Get the aspect-preserving downscale factor (never above 1)
+	 */
+	private getScale(width: number, height: number, limits: { maxWidth: number; maxHeight: number }): number {
+		let scale = 1;
+		if (limits.maxWidth > 0 && width > limits.maxWidth) {
+			scale = Math.min(scale, limits.maxWidth / width);
+		}
+		if (limits.maxHeight > 0 && height > limits.maxHeight) {
+			scale = Math.min(scale, limits.maxHeight / height);
+		}
+		return scale;
+	}
+
+	/**
+	 * Get the file extension for the configured output format
+	 */
+	private getTargetExtension(extension: string): string {
+		switch (this.settings.optimizeFormat) {
+			case OptimizeFormat.WebP:
+				return 'webp';
+			case OptimizeFormat.Avif:
+				return 'avif';
+			case OptimizeFormat.Jpeg:
+				return 'jpg';
+			case OptimizeFormat.Original:
+			default:
+				return extension.toLowerCase();
+		}
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -3,22 +3,69 @@
  * Core image handling, downloading, and processing
  */
 
-import { App, TFile, Notice, MarkdownView, requestUrl } from 'obsidian';
-import { ImageManagerSettings, ProcessedImage } from '../types';
+import { App, Editor, TFile, Notice, MarkdownView, requestUrl } from 'obsidian';
+import { DuplicateImageBehavior, ImageManagerSettings, ImageSource, ProcessedImage } from '../types';
 import { StorageManager } from './StorageManager';
-import { renderTemplate, buildTemplateVariables, isTemplateMeaningful } from '../utils/template';
+import { ImageOptimizer, PreparedImage } from './ImageOptimizer';
+import { MetadataScrubber } from './MetadataScrubber';
+import { ImageHashIndex } from './ImageHashIndex';
+import { OperationHistory } from './OperationHistory';
+import { AnnotationService } from './AnnotationService';
+import { ResponsiveImageService } from './ResponsiveImageService';
+import { renderTemplate, buildTemplateVariables, getDuplicateSeparators, isTemplateMeaningful } from '../utils/template';
 import { openRenameModal } from '../modals/RenameModal';
+import { openImageEditorModal } from '../modals/ImageEditorModal';
 import { openDescriptiveImageModal } from '../modals/DescriptiveImageModal';
+import { openDuplicateImageModal } from '../modals/DuplicateImageModal';
+import { BatchRenameItem, openBatchRenameModal } from '../modals/BatchRenameModal';
+import { PendingImage } from '../utils/image-preview';
+import { isEditableImage } from '../utils/image-transform';
+
+/**
+ * Outcome of checking incoming bytes against the vault's existing images
+ */
+export interface DuplicateResolution {
+	file: TFile | null; // Existing file to link instead of saving, or null to save a new copy
+	cancelled: boolean;
+}
 
 export class ImageProcessor {
 	private app: App;
 	private settings: ImageManagerSettings;
 	private storageManager: StorageManager;
+	private imageOptimizer: ImageOptimizer;
+	private metadataScrubber: MetadataScrubber;
+	private imageHashIndex: ImageHashIndex;
+	private operationHistory: OperationHistory;
+	private annotationService: AnnotationService;
+	private responsiveImageService: ResponsiveImageService;
+	private saveSettings: () => Promise<void>;
 
-	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager) {
+	/**
+	 * @param saveSettings - Persists settings changed from dialogs (e.g., "Always reuse")
+	 */
+	constructor(
+		app: App,
+		settings: ImageManagerSettings,
+		storageManager: StorageManager,
+		imageOptimizer: ImageOptimizer,
+		metadataScrubber: MetadataScrubber,
+		imageHashIndex: ImageHashIndex,
+		operationHistory: OperationHistory,
+		annotationService: AnnotationService,
+		responsiveImageService: ResponsiveImageService,
+		saveSettings: () => Promise<void>
+	) {
 		this.app = app;
 		this.settings = settings;
 		this.storageManager = storageManager;
+		this.imageOptimizer = imageOptimizer;
+		this.metadataScrubber = metadataScrubber;
+		this.imageHashIndex = imageHashIndex;
+		this.operationHistory = operationHistory;
+		this.annotationService = annotationService;
+		this.responsiveImageService = responsiveImageService;
+		this.saveSettings = saveSettings;
 	}
 
 	/**
@@ -27,18 +74,33 @@ export class ImageProcessor {
 	updateSettings(settings: ImageManagerSettings): void {
 		this.settings = settings;
 		this.storageManager.updateSettings(settings);
+		this.imageOptimizer.updateSettings(settings);
+		this.metadataScrubber.updateSettings(settings);
+		this.imageHashIndex.updateSettings(settings);
+		this.operationHistory.updateSettings(settings);
+		this.annotationService.updateSettings(settings);
+		this.responsiveImageService.updateSettings(settings);
 	}
 
 	/**
-	 * Process a pasted/dropped image file
+	 * Check if a pasted/dropped file is handled by the plugin (images and enabled attachment types)
+	 */
+	isManagedFile(file: File): boolean {
+		return this.storageManager.isManagedFile(file);
+	}
+
+	/**
+	 * Process a pasted/dropped image file (or another managed attachment type)
 	 * This is called from our event handlers (user-initiated action)
 	 * @param isPropertyInsertion - If true, skip descriptive images (only applies to note body)
+	 * @param source - Where the image came from (controls optimization)
 	 */
 	async processImageFile(
 		file: File,
 		activeFile: TFile,
 		showRenameModal: boolean = true,
-		isPropertyInsertion: boolean = false
+		isPropertyInsertion: boolean = false,
+		source: ImageSource = ImageSource.Paste
 	): Promise<ProcessedImage> {
 		try {
 			// Read file data
@@ -46,117 +108,104 @@ export class ImageProcessor {
 			const extension = this.getExtension(file);
 
 			// Generate suggested name from template (no suffix for local files)
-			const suggestedName = this.generateNameWithSuffix(activeFile);
-
-			// Get the name to use
-			let finalName = suggestedName;
-
-			if (showRenameModal && !this.settings.autoRename) {
-				// Create a temporary file to show in modal
-				const tempPath = await this.storageManager.getAvailablePath(
-					`temp-${Date.now()}`,
-					extension,
-					activeFile
-				);
-				const tempFile = await this.storageManager.saveFile(arrayBuffer, tempPath);
-
-				let finalName: string;
-				let displayText: string | undefined;
-
-				// Show descriptive image modal if enabled, otherwise show rename modal
-				if (this.settings.enableDescriptiveImages) {
-					const descResult = await openDescriptiveImageModal(this.app, tempFile, suggestedName);
-					
-					if (descResult.cancelled) {
-						// User cancelled - delete temp file and return
-						await this.app.fileManager.trashFile(tempFile);
-						return {
-							file: null,
-							path: '',
-							linkText: '',
-							success: false,
-							error: 'Cancelled by user',
-						};
-					}
+			const suggestedName = this.generateNameWithSuffix(activeFile, undefined, extension);
+
+			return await this.processImageData(
+				arrayBuffer,
+				extension,
+				activeFile,
+				suggestedName,
+				showRenameModal,
+				isPropertyInsertion,
+				source
+			);
+		} catch (error) {
+			console.error('Error processing image:', error);
+			return this.failedResult(error);
+		}
+	}
 
-					finalName = descResult.fileName;
-					displayText = descResult.description;
-				} else {
-					// Show rename modal
-					const result = await openRenameModal(this.app, tempFile, suggestedName);
+	/**
+	 * Process several pasted/dropped files with one batch rename modal
+	 * Falls back to one modal per file for a single file, auto-rename or descriptive images
+	 * @returns Results in the order chosen in the modal (skipped files are left out)
+	 */
+	async processImageFiles(
+		files: File[],
+		activeFile: TFile,
+		source: ImageSource = ImageSource.Paste
+	): Promise<ProcessedImage[]> {
+		if (files.length < 2 || this.settings.autoRename || this.settings.enableDescriptiveImages) {
+			const results: ProcessedImage[] = [];
+			for (const file of files) {
+				results.push(await this.processImageFile(file, activeFile, true, false, source));
+			}
+			return results;
+		}
 
-					if (result.cancelled) {
-						// User cancelled - delete temp file and return
-						await this.app.fileManager.trashFile(tempFile);
-						return {
-							file: null,
-							path: '',
-							linkText: '',
-							success: false,
-							error: 'Cancelled by user',
-						};
+		try {
+			const items: BatchRenameItem[] = [];
+			for (const file of files) {
+				const data = await file.arrayBuffer();
+				const prepared = await this.prepareImageData(data, this.getExtension(file), source, activeFile);
+
+				let existingFile: TFile | null = null;
+				if (this.storageManager.isImageExtension(prepared.extension)) {
+					const duplicate = await this.resolveDuplicate(data, prepared);
+					if (duplicate.cancelled) {
+						continue;
 					}
-
-					finalName = result.newName;
+					existingFile = duplicate.file;
 				}
 
-				// Rename the temp file to the final name
-				const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile);
-				await this.app.fileManager.renameFile(tempFile, finalPath);
+				items.push({
+					data: prepared.data,
+					extension: prepared.extension,
+					mimeType: this.storageManager.getMimeTypeFromExtension(prepared.extension),
+					suggestedName: this.generateNameWithSuffix(activeFile, undefined, prepared.extension),
+					folder: await this.storageManager.getAttachmentFolder(activeFile, prepared.extension),
+					existingFile,
+				});
+			}
+			if (items.length === 0) {
+				return [];
+			}
 
-				const abstractFile = this.app.vault.getAbstractFileByPath(finalPath);
-				if (!(abstractFile instanceof TFile)) {
-					throw new Error('Renamed file not found');
-				}
-				const renamedFile = abstractFile;
-				const linkText = this.storageManager.generateMarkdownLink(
-					renamedFile,
-					activeFile.path,
-					displayText,
-					this.settings.insertSize
-				);
+			const result = await openBatchRenameModal(this.app, items, this.settings.imageNameTemplate, this.settings.dupNamePattern, this.settings);
+			if (result.cancelled) {
+				return [];
+			}
 
-				if (!this.settings.disableRenameNotice) {
-					new Notice(`Image saved as: ${renamedFile.name}`);
+			const results: ProcessedImage[] = [];
+			for (const { item, name } of result.entries) {
+				if (item.existingFile) {
+					results.push(this.reusedResult(item.existingFile, activeFile));
+					continue;
 				}
-
-				return {
-					file: renamedFile,
-					path: finalPath,
-					linkText,
-					success: true,
-				};
-			} else {
-				// Auto-rename without modal
-				const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile);
-				const savedFile = await this.storageManager.saveFile(arrayBuffer, finalPath);
-				const linkText = this.storageManager.generateMarkdownLink(
-					savedFile,
-					activeFile.path,
-					undefined,
-					this.settings.insertSize
-				);
-
-				if (!this.settings.disableRenameNotice) {
-					new Notice(`Image saved as: ${savedFile.name}`);
+				const finalPath = await this.getDeduplicatedPath(name, item.extension, activeFile);
+				const savedFile = await this.storageManager.saveFile(item.data, finalPath);
+				let linkText = this.storageManager.generateMarkdownLink(savedFile, activeFile.path, undefined, this.settings.insertSize);
+				let variants: TFile[] | undefined;
+				if (this.responsiveImageService.appliesTo(activeFile, savedFile)) {
+					({ linkText, variants } = await this.createResponsiveVariants(savedFile, item.data, activeFile, linkText));
 				}
-
-				return {
+				results.push({
 					file: savedFile,
 					path: finalPath,
 					linkText,
 					success: true,
-				};
+					variants,
+				});
+			}
+
+			const saved = results.filter((r) => !r.reused).length;
+			if (!this.settings.disableRenameNotice && saved > 0) {
+				new Notice(`Saved ${saved} file(s)`);
 			}
+			return results;
 		} catch (error) {
-			console.error('Error processing image:', error);
-			return {
-				file: null,
-				path: '',
-				linkText: '',
-				success: false,
-				error: error instanceof Error ? error.message : String(error),
-			};
+			console.error('Error processing images:', error);
+			return [this.failedResult(error)];
 		}
 	}
 
@@ -164,13 +213,15 @@ export class ImageProcessor {
 	 * Process an image from a URL (download and save locally)
 	 * @param isPropertyInsertion - If true, skip descriptive images (only applies to note body)
 	 * @param suggestedNameOverride - Optional override for suggested name (e.g., from search term)
+	 * @param displayText - Optional display text for the link (e.g., original alt text)
 	 */
 	async processImageUrl(
 		url: string,
 		activeFile: TFile,
 		showRenameModal: boolean = true,
 		isPropertyInsertion: boolean = false,
-		suggestedNameOverride?: string
+		suggestedNameOverride?: string,
+		displayText?: string
 	): Promise<ProcessedImage> {
 		try {
 			// Download the image
@@ -179,129 +230,363 @@ export class ImageProcessor {
 				throw new Error(`Failed to download image: ${response.status}`);
 			}
 
+			// A login or error page served at an image URL must not be saved as an image
+			const contentType = response.headers['content-type']?.toLowerCase() ?? '';
+			if (!contentType.startsWith('image/')) {
+				throw new Error(`Not an image: ${contentType || 'no content type'}`);
+			}
+
 			const arrayBuffer = response.arrayBuffer;
-			const contentType = response.headers['content-type'] ?? 'image/png';
 			const extension = this.storageManager.getExtensionFromMimeType(contentType);
 
 			// Generate suggested name (use override if provided as suffix, otherwise generate from template)
-			const suggestedName = this.generateNameWithSuffix(activeFile, suggestedNameOverride);
+			const suggestedName = this.generateNameWithSuffix(activeFile, suggestedNameOverride, extension);
+
+			return await this.processImageData(
+				arrayBuffer,
+				extension,
+				activeFile,
+				suggestedName,
+				showRenameModal,
+				isPropertyInsertion,
+				ImageSource.Remote,
+				displayText
+			);
+		} catch (error) {
+			console.error('Error processing image URL:', error);
+			return this.failedResult(error);
+		}
+	}
 
-			// Get final name
-			let finalName = suggestedName;
+	/**
+	 * Resize, optimize and strip metadata from incoming image bytes before they are written to the vault
+	 * Other attachment types are passed through unchanged
+	 */
+	async prepareImageData(
+		data: ArrayBuffer,
+		extension: string,
+		source: ImageSource,
+		activeFile: TFile
+	): Promise<PreparedImage> {
+		if (!this.storageManager.isImageExtension(extension)) {
+			return {
+				data,
+				extension,
+				originalSize: data.byteLength,
+				optimized: false,
+				resized: false,
+				rotated: false,
+			};
+		}
 
-			if (showRenameModal && !this.settings.autoRename) {
-				// Save temp file first
-				const tempPath = await this.storageManager.getAvailablePath(
-					`temp-${Date.now()}`,
-					extension,
-					activeFile
-				);
-				const tempFile = await this.storageManager.saveFile(arrayBuffer, tempPath);
-
-				let finalName: string;
-				let displayText: string | undefined;
-
-				// Show descriptive image modal if enabled and NOT inserting to property, otherwise show rename modal
-				if (this.settings.enableDescriptiveImages && !isPropertyInsertion) {
-					const descResult = await openDescriptiveImageModal(this.app, tempFile, suggestedName);
-					
-					if (descResult.cancelled) {
-						await this.app.fileManager.trashFile(tempFile);
-						return {
-							file: null,
-							path: '',
-							linkText: '',
-							success: false,
-							error: 'Cancelled by user',
-						};
-					}
+		const folder = await this.storageManager.getAttachmentFolder(activeFile, extension);
+		const prepared = await this.imageOptimizer.optimize(data, extension, source, folder);
+
+		// Re-encoded images carry no metadata, so the kept fields are copied back from the original;
+		// untouched bytes are scrubbed in place
+		if (this.settings.stripMetadata) {
+			const stripped = prepared.optimized
+				? this.metadataScrubber.carryOver(data, extension, prepared.data, prepared.extension)
+				: this.metadataScrubber.scrub(prepared.data, prepared.extension);
+			if (stripped) {
+				return { ...prepared, data: stripped };
+			}
+		}
 
-					finalName = descResult.fileName;
-					displayText = descResult.description;
-				} else {
-					// Show rename modal
-					const result = await openRenameModal(this.app, tempFile, suggestedName);
+		return prepared;
+	}
 
-					if (result.cancelled) {
-						await this.app.fileManager.trashFile(tempFile);
-						return {
-							file: null,
-							path: '',
-							linkText: '',
-							success: false,
-							error: 'Cancelled by user',
-						};
-					}
+	/**
+	 * Look for an identical image already in the vault and decide whether to reuse it
+	 * Both the incoming and the prepared bytes are checked, since either may have been saved before
+	 * @param allowPrompt - If false, a copy is saved unless reuse is automatic (background processing)
+	 */
+	async resolveDuplicate(
+		originalData: ArrayBuffer,
+		prepared: PreparedImage,
+		allowPrompt: boolean = true
+	): Promise<DuplicateResolution> {
+		if (!this.imageHashIndex.isEnabled()) {
+			return { file: null, cancelled: false };
+		}
 
-					finalName = result.newName;
-				}
+		let existing: TFile | null = null;
+		try {
+			existing = await this.imageHashIndex.findDuplicate(prepared.data);
+			if (!existing && prepared.data !== originalData) {
+				existing = await this.imageHashIndex.findDuplicate(originalData);
+			}
+		} catch (error) {
+			console.warn('[Image Manager] Duplicate check failed, saving a new copy:', error);
+		}
 
-				const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile);
-				await this.app.fileManager.renameFile(tempFile, finalPath);
+		if (!existing) {
+			return { file: null, cancelled: false };
+		}
 
-				const abstractFile = this.app.vault.getAbstractFileByPath(finalPath);
-				if (!(abstractFile instanceof TFile)) {
-					throw new Error('Renamed file not found');
-				}
-				const renamedFile = abstractFile;
-				const linkText = this.storageManager.generateMarkdownLink(
-					renamedFile,
-					activeFile.path,
-					displayText,
-					this.settings.insertSize
-				);
+		if (this.settings.duplicateImageBehavior === DuplicateImageBehavior.Reuse) {
+			return { file: existing, cancelled: false };
+		}
+		if (!allowPrompt) {
+			return { file: null, cancelled: false };
+		}
+
+		const choice = await openDuplicateImageModal(this.app, existing);
+		if (choice.cancelled) {
+			return { file: null, cancelled: true };
+		}
+		if (choice.always) {
+			this.settings.duplicateImageBehavior = DuplicateImageBehavior.Reuse;
+			await this.saveSettings();
+		}
+		return { file: choice.reuse ? existing : null, cancelled: false };
+	}
 
-				if (!this.settings.disableRenameNotice) {
-					new Notice(`Image downloaded and saved as: ${renamedFile.name}`);
+	/**
+	 * Shared pipeline for pasted, dropped, picked and downloaded images:
+	 * resize/optimize, reuse an identical existing image if allowed, ask for a name
+	 * (unless auto-rename), save and build the link
+	 * @param defaultDisplayText - Link display text unless the descriptive image modal provides one
+	 */
+	private async processImageData(
+		data: ArrayBuffer,
+		extension: string,
+		activeFile: TFile,
+		suggestedName: string,
+		showRenameModal: boolean,
+		isPropertyInsertion: boolean,
+		source: ImageSource,
+		defaultDisplayText?: string
+	): Promise<ProcessedImage> {
+		const prepared = await this.prepareImageData(data, extension, source, activeFile);
+		const isImage = this.storageManager.isImageExtension(prepared.extension);
+
+		// Only images are tracked by the content-hash index
+		if (isImage) {
+			const duplicate = await this.resolveDuplicate(data, prepared);
+			if (duplicate.cancelled) {
+				return this.cancelledResult();
+			}
+			if (duplicate.file) {
+				return this.reusedResult(duplicate.file, activeFile, defaultDisplayText);
+			}
+		}
+
+		const noun = isImage ? 'Image' : 'File';
+		const noticePrefix = source === ImageSource.Remote ? `${noun} downloaded and saved as` : `${noun} saved as`;
+
+		let finalName = suggestedName;
+		let displayText = defaultDisplayText;
+		let annotate = false;
+
+		// The modals preview the bytes from memory; nothing is written until a name is chosen
+		const pending: PendingImage = {
+			data: prepared.data,
+			extension: prepared.extension,
+			mimeType: this.storageManager.getMimeTypeFromExtension(prepared.extension),
+			folder: await this.storageManager.getAttachmentFolder(activeFile, prepared.extension),
+		};
+
+		if (showRenameModal && !this.settings.autoRename) {
+
+			// Show descriptive image modal if enabled and NOT inserting to property, otherwise show rename modal
+			if (this.settings.enableDescriptiveImages && !isPropertyInsertion && isImage) {
+				const descResult = await openDescriptiveImageModal(this.app, pending, this.settings, suggestedName);
+				if (descResult.cancelled) {
+					return this.cancelledResult();
 				}
 
-				return {
-					file: renamedFile,
-					path: finalPath,
-					linkText,
-					success: true,
-				};
+				finalName = descResult.fileName;
+				displayText = descResult.description;
 			} else {
-				const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile);
-				const savedFile = await this.storageManager.saveFile(arrayBuffer, finalPath);
-				const linkText = this.storageManager.generateMarkdownLink(
-					savedFile,
-					activeFile.path,
-					undefined,
-					this.settings.insertSize
-				);
+				const canEdit = isImage && isEditableImage(pending.data, pending.extension);
+				let name = suggestedName;
+
+				// "Edit image" returns here with the edited bytes until a name is chosen ("Annotate" also chooses it)
+				for (;;) {
+					const result = await openRenameModal(this.app, pending, name, this.settings, {
+						originalSize: prepared.originalSize,
+						finalSize: pending.data.byteLength,
+					}, canEdit);
+					if (result.cancelled) {
+						return this.cancelledResult();
+					}
+					if (!result.edit) {
+						finalName = result.newName;
+						annotate = result.annotate ?? false;
+						break;
+					}
 
-				if (!this.settings.disableRenameNotice) {
-					new Notice(`Image downloaded and saved as: ${savedFile.name}`);
+					name = result.newName;
+					await this.editPendingImage(pending);
 				}
+			}
+		}
 
-				return {
-					file: savedFile,
-					path: finalPath,
-					linkText,
-					success: true,
-				};
+		const finalPath = await this.getDeduplicatedPath(finalName, pending.extension, activeFile);
+		const savedFile = await this.storageManager.saveFile(pending.data, finalPath);
+		if (annotate) {
+			// Annotations need the saved original; the link stays on the flattened render
+			await this.annotationService.annotate(savedFile);
+		}
+
+		let linkText = this.storageManager.generateMarkdownLink(
+			savedFile,
+			activeFile.path,
+			displayText,
+			this.settings.insertSize
+		);
+
+		let variants: TFile[] | undefined;
+		if (!isPropertyInsertion && this.responsiveImageService.appliesTo(activeFile, savedFile)) {
+			const savedData = annotate ? await this.app.vault.readBinary(savedFile) : pending.data;
+			({ linkText, variants } = await this.createResponsiveVariants(savedFile, savedData, activeFile, linkText, displayText));
+		}
+
+		if (!this.settings.disableRenameNotice) {
+			new Notice(`${noticePrefix}: ${savedFile.name}`);
+		}
+
+		return {
+			file: savedFile,
+			path: finalPath,
+			linkText,
+			success: true,
+			variants,
+		};
+	}
+
+	/**
+	 * Create width variants (and optionally a srcset snippet) of an image saved in a static-site note
+	 * @returns The link to insert (the snippet if one was built) and the variants created
+	 */
+	private async createResponsiveVariants(
+		savedFile: TFile,
+		savedData: ArrayBuffer,
+		activeFile: TFile,
+		linkText: string,
+		displayText?: string
+	): Promise<{ linkText: string; variants?: TFile[] }> {
+		const set = await this.responsiveImageService.createVariants(savedFile, savedData);
+		if (!set) {
+			return { linkText };
+		}
+		return {
+			linkText: this.responsiveImageService.buildSnippet(set, activeFile.path, displayText ?? savedFile.basename) ?? linkText,
+			variants: set.variants.map((variant) => variant.file),
+		};
+	}
+
+	/**
+	 * Crop, rotate or flip a pending image in the editor, replacing its bytes if changed
+	 */
+	private async editPendingImage(pending: PendingImage): Promise<void> {
+		const edit = await openImageEditorModal(this.app, pending.data, pending.mimeType, this.settings.optimizeQuality / 100);
+		if (edit.cancelled || !edit.data) {
+			return;
+		}
+
+		pending.data = edit.data;
+		if (edit.mimeType !== pending.mimeType) {
+			pending.mimeType = edit.mimeType;
+			pending.extension = this.storageManager.getExtensionFromMimeType(edit.mimeType);
+		}
+	}
+
+	/**
+	 * Crop, rotate or flip an existing vault image in place
+	 * Images the platform cannot re-encode are saved as PNG under the same name
+	 */
+	async editImageFile(file: TFile): Promise<void> {
+		const data = await this.app.vault.readBinary(file);
+		if (!this.storageManager.isImageFile(file) || !isEditableImage(data, file.extension)) {
+			new Notice(`${file.name} cannot be edited`);
+			return;
+		}
+
+		const mimeType = this.storageManager.getMimeTypeFromExtension(file.extension);
+		const edit = await openImageEditorModal(this.app, data, mimeType, this.settings.optimizeQuality / 100);
+		if (edit.cancelled || !edit.data) {
+			return;
+		}
+
+		try {
+			if (edit.mimeType !== mimeType) {
+				// Renaming through the file manager keeps links pointing at the image
+				const extension = this.storageManager.getExtensionFromMimeType(edit.mimeType);
+				const path = this.storageManager.getAvailablePathInFolder(file.parent?.path ?? '', file.basename, extension);
+				await this.app.fileManager.renameFile(file, path);
 			}
+
+			await this.app.vault.modifyBinary(file, edit.data);
+			this.log(`Edited ${file.path}`);
+			new Notice(`Image edited: ${file.name}`);
 		} catch (error) {
-			console.error('Error processing image URL:', error);
-			return {
-				file: null,
-				path: '',
-				linkText: '',
-				success: false,
-				error: error instanceof Error ? error.message : String(error),
-			};
+			console.error('[Image Manager] Failed to save edited image:', error);
+			new Notice(`Failed to save edited image: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	/**
+	 * Result for an insertion that links an existing identical image
+	 */
+	private reusedResult(file: TFile, activeFile: TFile, displayText?: string): ProcessedImage {
+		const linkText = this.storageManager.generateMarkdownLink(
+			file,
+			activeFile.path,
+			displayText,
+			this.settings.insertSize
+		);
+
+		if (!this.settings.disableRenameNotice) {
+			new Notice(`Linked existing image: ${file.name}`);
 		}
+
+		return {
+			file,
+			path: file.path,
+			linkText,
+			success: true,
+			reused: true,
+		};
+	}
+
+	/**
+	 * Result for an insertion the user cancelled
+	 */
+	private cancelledResult(): ProcessedImage {
+		return {
+			file: null,
+			path: '',
+			linkText: '',
+			success: false,
+			error: 'Cancelled by user',
+		};
+	}
+
+	/**
+	 * Result for an insertion that failed with an error
+	 */
+	private failedResult(error: unknown): ProcessedImage {
+		return {
+			file: null,
+			path: '',
+			linkText: '',
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
 	}
 
 	/**
 	 * Generate a suggested name based on the template and optional suffix
+	 * @param extension - Extension of the file being named; managed attachment types may have their own template
 	 */
-	generateNameWithSuffix(activeFile: TFile, suffix?: string): string {
+	generateNameWithSuffix(activeFile: TFile, suffix?: string, extension?: string): string {
+		const typeTemplate = extension ? this.storageManager.getAttachmentType(extension)?.nameTemplate.trim() : '';
 		const variables = buildTemplateVariables(this.app, activeFile);
-		const rendered = renderTemplate(this.settings.imageNameTemplate, variables);
+		const rendered = renderTemplate(typeTemplate || this.settings.imageNameTemplate, variables);
 
-		const isMeaningful = isTemplateMeaningful(rendered, this.settings.dupNumberDelimiter);
+		const isMeaningful = isTemplateMeaningful(rendered, getDuplicateSeparators(this.settings.dupNamePattern));
 		const base = isMeaningful ? rendered : '';
 
 		if (base && suffix) {
@@ -328,9 +613,10 @@ export class ImageProcessor {
 	private async getDeduplicatedPath(
 		baseName: string,
 		extension: string,
-		activeFile: TFile
+		activeFile: TFile,
+		renaming?: TFile
 	): Promise<string> {
-		return await this.storageManager.getAvailablePath(baseName, extension, activeFile);
+		return await this.storageManager.getAvailablePath(baseName, extension, activeFile, renaming);
 	}
 
 	/**
@@ -350,6 +636,20 @@ export class ImageProcessor {
 		return this.storageManager.getExtensionFromMimeType(file.type);
 	}
 
+	/**
+	 * Apply the note edit that inserts processed files, recording both so the insertion can be undone
+	 * @param edit - Inserts the links or sets the property
+	 * @param editor - Editor the edit is made in (omit for frontmatter and file edits)
+	 */
+	async applyInsertion(
+		note: TFile,
+		results: ProcessedImage[],
+		edit: () => void | Promise<void>,
+		editor?: Editor
+	): Promise<void> {
+		await this.operationHistory.record(note, results, edit, editor);
+	}
+
 	/**
 	 * Insert link text at cursor position
 	 */
@@ -385,18 +685,19 @@ export class ImageProcessor {
 			// Handle descriptive images if enabled (note: this is for renaming existing files, not property insertion)
 			// If descriptive images is enabled, it handles the naming and we skip the rename modal
 			if (this.settings.enableDescriptiveImages) {
-				const descResult = await openDescriptiveImageModal(this.app, imageFile, suggestedName);
+				const descResult = await openDescriptiveImageModal(this.app, imageFile, this.settings, suggestedName);
 				if (descResult.cancelled) {
 					return null; // User cancelled
 				}
 				displayText = descResult.description;
-				finalName = descResult.fileName; // Already kebab-cased
+				finalName = descResult.fileName; // Already follows the file name policy
 			} else if (!this.settings.autoRename) {
 				// Only show rename modal if descriptive images is disabled AND auto-rename is off
 				const result = await openRenameModal(
 					this.app,
 					imageFile,
-					finalName
+					finalName,
+					this.settings
 				);
 				if (result.cancelled) {
 					return null; // User cancelled
@@ -405,8 +706,14 @@ export class ImageProcessor {
 			}
 
 			// Rename the file
-			const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile);
-			await this.app.fileManager.renameFile(imageFile, finalPath);
+			const finalPath = await this.getDeduplicatedPath(finalName, extension, activeFile, imageFile);
+			try {
+				if (finalPath !== imageFile.path) {
+					await this.app.fileManager.renameFile(imageFile, finalPath);
+				}
+			} finally {
+				this.storageManager.releasePath(finalPath);
+			}
 
 			const abstractFile = this.app.vault.getAbstractFileByPath(finalPath);
 			if (!(abstractFile instanceof TFile)) {
@@ -428,13 +735,7 @@ export class ImageProcessor {
 			};
 		} catch (error) {
 			console.error('Error renaming image file:', error);
-			return {
-				file: null,
-				path: '',
-				linkText: '',
-				success: false,
-				error: error instanceof Error ? error.message : String(error),
-			};
+			return this.failedResult(error);
 		}
 	}
 
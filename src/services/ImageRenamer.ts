@@ -0,0 +1,192 @@
+/**
+ * Image Renamer Service
+ * Re-applies the image name template to a note's own images, e.g. after the note was renamed
+ */
+
+import { App, Notice, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceService } from './ReferenceService';
+import { ImageRename, openImageRenamePreviewModal } from '../modals/ImageRenamePreviewModal';
+import {
+	buildTemplateVariables,
+	getDuplicateSeparators,
+	isTemplateMeaningful,
+	parseDuplicateName,
+	renderDuplicateName,
+	renderTemplate,
+} from '../utils/template';
+import { getBaseName, getFolderPath } from '../utils/path';
+
+export class ImageRenamer {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager, referenceService: ReferenceService) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Preview and apply new names for the images only this note uses
+	 * @param oldPath - The note's path before a rename; without it, images not already named
+	 *   after the template are renamed to the rendered name
+	 */
+	async renameImages(note: TFile, oldPath?: string): Promise<void> {
+		const renames = await this.planRenames(note, oldPath);
+		if (renames.length === 0) {
+			if (!oldPath) {
+				new Notice(`The images of ${note.name} already match the name template`);
+			}
+			return;
+		}
+
+		const result = await openImageRenamePreviewModal(this.app, `Rename images of ${note.basename}`, renames);
+		if (result.cancelled || result.renames.length === 0) {
+			return;
+		}
+
+		// Obsidian updates markdown links on rename; the rest (MDX imports, HTML, bare frontmatter paths)
+		// are rewritten by the link path they had before
+		const content = await this.app.vault.read(note);
+		const renamed = new Set(result.renames.map((rename) => rename.file));
+		const targets = new Map<string, TFile>();
+		for (const reference of this.referenceService.extractReferences(content)) {
+			const target = this.referenceService.resolveReference(reference.linkPath, note.path);
+			if (target && renamed.has(target)) {
+				targets.set(reference.linkPath, target);
+			}
+		}
+
+		for (const rename of result.renames) {
+			await this.app.fileManager.renameFile(rename.file, rename.newPath);
+		}
+		await this.app.vault.process(note, (current) => this.referenceService.rewriteLinkPaths(current, note, targets));
+
+		this.log(`Renamed ${result.renames.length} image(s) of ${note.path}`);
+		new Notice(`Renamed ${result.renames.length} image(s)`);
+	}
+
+	/**
+	 * Work out the new name of each image only this note uses
+	 * @param oldPath - The note's path before a rename; only the part of each name rendered from it is replaced
+	 */
+	async planRenames(note: TFile, oldPath?: string): Promise<ImageRename[]> {
+		const newBase = this.renderBase(note);
+		const oldBase = oldPath ? this.renderBase(note, oldPath) : newBase;
+		if (!newBase || !oldBase || (oldPath && oldBase === newBase)) {
+			return [];
+		}
+
+		const content = await this.app.vault.cachedRead(note);
+		const images = new Set<TFile>();
+		for (const reference of this.referenceService.extractReferences(content)) {
+			const target = this.referenceService.resolveReference(reference.linkPath, note.path);
+			if (target && this.storageManager.isImageFile(target)) {
+				images.add(target);
+			}
+		}
+		if (images.size === 0) {
+			return [];
+		}
+
+		const { owned, shared } = await this.referenceService.partitionByOwner(note, [...images]);
+		if (shared.length > 0) {
+			this.log(`Not renaming ${shared.length} image(s) of ${note.path} that other notes use`);
+		}
+
+		const renames: ImageRename[] = [];
+		const reserved = new Set<string>();
+		for (const image of owned) {
+			const replaced = this.replaceBase(image.basename, oldBase, newBase);
+			let newName: string;
+			if (oldPath) {
+				if (replaced === null) {
+					continue; // Not named after the template
+				}
+				newName = replaced;
+			} else {
+				if (replaced !== null) {
+					continue; // Already named after the template
+				}
+				newName = newBase;
+			}
+
+			const newPath = this.storageManager.getAvailablePathInFolder(
+				getFolderPath(image.path),
+				newName,
+				image.extension,
+				reserved,
+				image.path
+			);
+			reserved.add(newPath.toLowerCase());
+			if (newPath !== image.path) {
+				renames.push({ file: image, newPath });
+			}
+		}
+		return renames;
+	}
+
+	/**
+	 * Render the image name template for a note, as a file name ('' if it renders to nothing)
+	 * @param notePath - Render {{fileName}} and {{dirName}} from this path instead of the note's current one
+	 */
+	private renderBase(note: TFile, notePath?: string): string {
+		const variables = buildTemplateVariables(this.app, note);
+		if (notePath) {
+			const folder = getFolderPath(notePath);
+			variables.fileName = getBaseName(notePath);
+			variables.dirName = folder.substring(folder.lastIndexOf('/') + 1);
+		}
+
+		const rendered = renderTemplate(this.settings.imageNameTemplate, variables);
+		return isTemplateMeaningful(rendered, getDuplicateSeparators(this.settings.dupNamePattern))
+			? this.storageManager.sanitizeFileName(rendered)
+			: '';
+	}
+
+	/**
+	 * Swap the rendered template at the start of a name, or of the name inside a duplicate name
+	 * (e.g. "002-draft" with a "{{n:3}}-{{name}}" pattern)
+	 * Returns null if the name doesn't start with the old rendered template
+	 */
+	private replaceBase(name: string, oldBase: string, newBase: string): string | null {
+		const replaced = this.replaceLeadingBase(name, oldBase, newBase);
+		if (replaced !== null) {
+			return replaced;
+		}
+
+		const duplicate = parseDuplicateName(this.settings.dupNamePattern, name);
+		const inner = duplicate ? this.replaceLeadingBase(duplicate.name, oldBase, newBase) : null;
+		return duplicate && inner !== null ? renderDuplicateName(this.settings.dupNamePattern, inner, duplicate.n) : null;
+	}
+
+	private replaceLeadingBase(name: string, oldBase: string, newBase: string): string | null {
+		const tail = name.substring(oldBase.length);
+		// "draft" is the base of "draft-1" and "draft - diagram", but not of "drafting"
+		if (!name.startsWith(oldBase) || /^[\p{L}\p{N}]/u.test(tail)) {
+			return null;
+		}
+		return `${newBase}${tail}`;
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
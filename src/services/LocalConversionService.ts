@@ -4,10 +4,11 @@
  */
 
 import { App, TFile, requestUrl } from 'obsidian';
-import { ImageManagerSettings } from '../types';
+import { ImageManagerSettings, ImageSource } from '../types';
 import { StorageManager } from './StorageManager';
 import { ImageProcessor } from './ImageProcessor';
 import { isMarkdownFile } from '../utils/mdx-frontmatter';
+import { isExternalUrl, isImageUrlCandidate, verifyImageUrl } from '../utils/image-url';
 
 // Regex patterns for finding external images
 // Updated to handle URLs with query parameters and fragments
@@ -80,12 +81,19 @@ export class LocalConversionService {
 				}
 
 				// Download and save temporarily
-				const tempPath = await this.downloadAndSave(image.url, sourceFile);
-				if (!tempPath) {
+				const saved = await this.downloadAndSave(image.url, sourceFile, isBackground);
+				if (!saved) {
 					continue;
 				}
 
-				const tempFile = this.app.vault.getAbstractFileByPath(tempPath);
+				// Identical image already in the vault - link it as-is
+				if (saved.reused) {
+					newContent = newContent.replace(image.fullMatch, image.replacement(saved.path));
+					count++;
+					continue;
+				}
+
+				const tempFile = this.app.vault.getAbstractFileByPath(saved.path);
 				if (!(tempFile instanceof TFile)) {
 					continue;
 				}
@@ -195,7 +203,7 @@ export class LocalConversionService {
 			const alt = match[1] ?? '';
 			const url = match[2];
 			// Only process if it's an external URL and passes preliminary filter
-			if (url && this.isExternalUrl(url) && this.isImageUrl(url)) {
+			if (url && isExternalUrl(url) && isImageUrlCandidate(url)) {
 				const sourceFileRef = sourceFile; // Capture for closure
 				candidateMatches.push({
 					fullMatch,
@@ -221,11 +229,11 @@ export class LocalConversionService {
 							}
 							return link;
 						}
-						// Fallback - use relative path
+						// Fallback - use the configured link path style
 						const localFile = this.app.vault.getAbstractFileByPath(localPath);
 						if (localFile instanceof TFile) {
-							const relativePath = this.storageManager.getRelativePath(sourceFileRef, localFile);
-							return `![${alt}](${encodeURI(relativePath)})`;
+							const linkPath = this.storageManager.getLinkPath(localFile, sourceFileRef.path);
+							return `![${alt}](${this.storageManager.encodeLinkPath(linkPath)})`;
 						}
 						return `![${alt}](${encodeURI(localPath)})`;
 					},
@@ -244,7 +252,7 @@ export class LocalConversionService {
 			const fullMatch = match[0];
 			const url = match[1];
 			// Only process if it's an external URL and passes preliminary filter
-			if (url && this.isExternalUrl(url) && this.isImageUrl(url)) {
+			if (url && isExternalUrl(url) && isImageUrlCandidate(url)) {
 				candidateMatches.push({
 					fullMatch,
 					url,
@@ -256,7 +264,7 @@ export class LocalConversionService {
 		// Verify each candidate URL with HEAD request
 		const verifiedMatches: ExternalImageMatch[] = [];
 		for (const candidate of candidateMatches) {
-			const isImage = await this.verifyImageUrl(candidate.url);
+			const isImage = await verifyImageUrl(candidate.url);
 			if (isImage) {
 				verifiedMatches.push(candidate);
 			}
@@ -266,76 +274,15 @@ export class LocalConversionService {
 	}
 
 	/**
-	 * Check if a URL is external
-	 */
-	private isExternalUrl(url: string): boolean {
-		try {
-			const parsed = new URL(url);
-			return ['http:', 'https:'].includes(parsed.protocol);
-		} catch {
-			return false;
-		}
-	}
-
-	/**
-	 * Check if a URL should be considered for image conversion
-	 * Returns false for known non-image embed domains (YouTube, etc.)
-	 * This is a preliminary filter - actual image verification happens via HEAD request
-	 */
-	private isImageUrl(url: string): boolean {
-		try {
-			const parsed = new URL(url);
-			const hostname = parsed.hostname.toLowerCase();
-
-			// Exclude known non-image embed domains
-			const nonImageDomains = [
-				'youtube.com',
-				'www.youtube.com',
-				'youtu.be',
-				'm.youtube.com',
-				'youtube-nocookie.com',
-				'www.youtube-nocookie.com',
-				'vimeo.com',
-				'www.vimeo.com',
-				'spotify.com',
-				'open.spotify.com',
-				'soundcloud.com',
-				'www.soundcloud.com',
-			];
-
-			if (nonImageDomains.some(domain => hostname === domain || hostname.endsWith('.' + domain))) {
-				return false;
-			}
-
-			// Allow all other external URLs - we'll verify with HEAD request
-			return true;
-		} catch {
-			return false;
-		}
-	}
-
-	/**
-	 * Verify if a URL actually serves an image by checking Content-Type header
-	 * Uses HEAD request to avoid downloading non-image content
-	 */
-	private async verifyImageUrl(url: string): Promise<boolean> {
-		try {
-			const response = await requestUrl({ url, method: 'HEAD' });
-			const contentType = response.headers['content-type']?.toLowerCase() ?? '';
-			
-			// Check if Content-Type starts with 'image/'
-			return contentType.startsWith('image/');
-		} catch {
-			// On error (network issues, CORS, etc.), return false to skip this URL
-			return false;
-		}
-	}
-
-	/**
-	 * Download an image and save it locally
+	 * Download an image and save it locally, or find an identical image already in the vault
 	 * Includes Content-Type validation as a safety net
+	 * @param isBackground - If true, never prompt about duplicates (a copy is saved unless reuse is automatic)
 	 */
-	private async downloadAndSave(url: string, sourceFile: TFile): Promise<string | null> {
+	private async downloadAndSave(
+		url: string,
+		sourceFile: TFile,
+		isBackground: boolean = false
+	): Promise<{ path: string; reused: boolean } | null> {
 		try {
 			const response = await requestUrl({ url });
 			if (response.status >= 400) {
@@ -351,19 +298,32 @@ export class LocalConversionService {
 				return null;
 			}
 
-			const extension = this.storageManager.getExtensionFromMimeType(contentType);
-			const arrayBuffer = response.arrayBuffer;
+			// Resize/optimize the download if enabled
+			const prepared = await this.imageProcessor.prepareImageData(
+				response.arrayBuffer,
+				this.storageManager.getExtensionFromMimeType(contentType),
+				ImageSource.Remote,
+				sourceFile
+			);
+
+			const duplicate = await this.imageProcessor.resolveDuplicate(response.arrayBuffer, prepared, !isBackground);
+			if (duplicate.cancelled) {
+				return null;
+			}
+			if (duplicate.file) {
+				return { path: duplicate.file.path, reused: true };
+			}
 
 			// Generate a name based on URL or hash
 			const urlPath = new URL(url).pathname;
 			const urlFileName = urlPath.split('/').pop()?.split('.')[0] ?? 'image';
 			const baseName = this.storageManager.sanitizeFileName(urlFileName);
 
-			const filePath = await this.storageManager.getAvailablePath(baseName, extension, sourceFile);
-			await this.storageManager.saveFile(arrayBuffer, filePath);
+			const filePath = await this.storageManager.getAvailablePath(baseName, prepared.extension, sourceFile);
+			await this.storageManager.saveFile(prepared.data, filePath);
 
 			// Return full vault path - the replacement function will handle conversion
-			return filePath;
+			return { path: filePath, reused: false };
 		} catch (error) {
 			console.error(`Failed to download ${url}:`, error);
 			return null;
@@ -0,0 +1,119 @@
+/**
+ * Metadata Scrubber Service
+ * Removes EXIF/XMP/IPTC metadata (GPS coordinates, camera serials, etc.) from images
+ */
+
+import { App, TFile } from 'obsidian';
+import { ImageManagerSettings, MetadataField } from '../types';
+import { StorageManager } from './StorageManager';
+import { copyExifTags, EXIF_TAGS, stripImageMetadata } from '../utils/image-metadata';
+
+export class MetadataScrubber {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Strip metadata from image bytes, keeping the whitelisted fields
+	 * Returns null if the format is unsupported or there was nothing to remove
+	 */
+	scrub(data: ArrayBuffer, extension: string): ArrayBuffer | null {
+		return stripImageMetadata(data, extension, this.getKeepTags());
+	}
+
+	/**
+	 * Carry the whitelisted fields over from an original image to its re-encoded copy, which has no metadata
+	 * Orientation is left out: decoding applies it, so the re-encoded pixels are already upright
+	 * Returns null if there was nothing to carry over
+	 */
+	carryOver(original: ArrayBuffer, originalExtension: string, encoded: ArrayBuffer, encodedExtension: string): ArrayBuffer | null {
+		const tags = this.getKeepTags().filter((tag) => tag !== EXIF_TAGS.Orientation);
+		if (tags.length === 0) {
+			return null;
+		}
+		return copyExifTags(original, originalExtension, encoded, encodedExtension, tags);
+	}
+
+	/**
+	 * Strip metadata from an image file in the vault
+	 * @returns true if the file was modified
+	 */
+	async scrubFile(file: TFile): Promise<boolean> {
+		const data = await this.app.vault.readBinary(file);
+		const stripped = this.scrub(data, file.extension);
+		if (!stripped) {
+			return false;
+		}
+
+		await this.app.vault.modifyBinary(file, stripped);
+		this.log(`Stripped metadata from ${file.path}`, {
+			originalSize: data.byteLength,
+			strippedSize: stripped.byteLength,
+		});
+		return true;
+	}
+
+	/**
+	 * Strip metadata from all images in the vault
+	 * @returns Number of files modified
+	 */
+	async scrubAllImages(): Promise<number> {
+		const images = this.app.vault.getFiles().filter((file) => this.storageManager.isImageFile(file));
+		let count = 0;
+
+		for (const file of images) {
+			try {
+				if (await this.scrubFile(file)) {
+					count++;
+				}
+			} catch (error) {
+				console.error(`[Image Manager] Failed to strip metadata from ${file.path}:`, error);
+			}
+		}
+
+		return count;
+	}
+
+	/**
+	 * Map the whitelisted fields to EXIF tag ids
+	 */
+	private getKeepTags(): number[] {
+		const tags: number[] = [];
+		for (const field of this.settings.keepMetadataFields) {
+			switch (field) {
+				case MetadataField.Orientation:
+					tags.push(EXIF_TAGS.Orientation);
+					break;
+				case MetadataField.Copyright:
+					tags.push(EXIF_TAGS.Copyright, EXIF_TAGS.Artist);
+					break;
+				case MetadataField.Resolution:
+					tags.push(EXIF_TAGS.XResolution, EXIF_TAGS.YResolution, EXIF_TAGS.ResolutionUnit);
+					break;
+			}
+		}
+		return tags;
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
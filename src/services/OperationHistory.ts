@@ -0,0 +1,248 @@
+/**
+ * Operation History Service
+ * Records image insertions (saved files plus the note edit) so the last one can be undone as a unit
+ */
+
+import { App, Editor, MarkdownView, Notice, TFile } from 'obsidian';
+import { ImageManagerSettings, ProcessedImage } from '../types';
+import { ReferenceService } from './ReferenceService';
+
+/**
+ * The part of a note an operation changed
+ */
+interface NoteChange {
+	offset: number; // Start of the change in the edited content
+	inserted: string;
+	removed: string;
+}
+
+/**
+ * One recorded insertion
+ */
+export interface ImageOperation {
+	note: TFile;
+	files: TFile[]; // Files saved by the operation, with any responsive variants (reused existing files are not included)
+	after: string; // Note content right after the edit
+	change: NoteChange | null; // null if the note was not changed
+}
+
+// Oldest operations are dropped beyond this
+const MAX_OPERATIONS = 20;
+
+export class OperationHistory {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private referenceService: ReferenceService;
+
+	private operations: ImageOperation[] = [];
+
+	constructor(app: App, settings: ImageManagerSettings, referenceService: ReferenceService) {
+		this.app = app;
+		this.settings = settings;
+		this.referenceService = referenceService;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Apply the note edit that inserts processed files and record both as one operation
+	 * Nothing is recorded if no file was inserted
+	 * @param edit - Inserts the links or sets the property
+	 * @param editor - Editor the edit is made in (the saved note content is used otherwise)
+	 */
+	async record(
+		note: TFile,
+		results: ProcessedImage[],
+		edit: () => void | Promise<void>,
+		editor?: Editor
+	): Promise<void> {
+		const read = async () => editor ? editor.getValue() : await this.app.vault.read(note);
+
+		const before = await read();
+		await edit();
+		const after = await read();
+
+		const inserted = results.filter((result) => result.success && result.file);
+		if (inserted.length === 0) {
+			return;
+		}
+
+		const files = inserted
+			.filter((result) => !result.reused)
+			.flatMap((result) => [result.file, ...(result.variants ?? [])])
+			.filter((file): file is TFile => file !== null);
+
+		this.operations.push({ note, files, after, change: this.diff(before, after) });
+		if (this.operations.length > MAX_OPERATIONS) {
+			this.operations.shift();
+		}
+		this.log(`Recorded insertion into ${note.path}`, files.map((file) => file.path));
+	}
+
+	/**
+	 * Undo the last operation: revert the note edit and trash the files it saved
+	 * Refuses if a saved file has since been referenced anywhere else
+	 */
+	async undoLast(): Promise<void> {
+		const operation = this.operations[this.operations.length - 1];
+		if (!operation) {
+			new Notice('No image operation to undo');
+			return;
+		}
+
+		const { note } = operation;
+		const noteExists = this.app.vault.getAbstractFileByPath(note.path) === note;
+		const editor = noteExists ? this.getOpenEditor(note) : null;
+		const content = !noteExists ? '' : editor ? editor.getValue() : await this.app.vault.read(note);
+		const position = noteExists ? this.findChange(content, operation) : null;
+
+		if (noteExists && position === null) {
+			new Notice(`Cannot undo: ${note.name} was edited and the inserted text could not be found`);
+			return;
+		}
+
+		const files = operation.files.filter((file) => this.app.vault.getAbstractFileByPath(file.path) === file);
+		const blocker = await this.findReferencingNote(files, operation, noteExists ? content : '', position ?? -1);
+		if (blocker) {
+			new Notice(`Cannot undo: ${blocker.file.name} is now also used in ${blocker.note.path}`);
+			return;
+		}
+
+		// Revert the note (nothing to do if the edit was already undone in the editor)
+		const change = operation.change;
+		if (noteExists && change && position !== null && position >= 0) {
+			if (editor) {
+				editor.replaceRange(
+					change.removed,
+					editor.offsetToPos(position),
+					editor.offsetToPos(position + change.inserted.length)
+				);
+			} else {
+				await this.app.vault.process(note, (current) => {
+					const start = this.findChange(current, operation);
+					return start === null || start < 0
+						? current
+						: current.substring(0, start) + change.removed + current.substring(start + change.inserted.length);
+				});
+			}
+		}
+
+		for (const file of files) {
+			await this.app.fileManager.trashFile(file);
+		}
+
+		this.operations.pop();
+		new Notice(files.length > 0
+			? `Undid image operation and moved ${files.length} file(s) to trash`
+			: 'Undid image operation');
+	}
+
+	/**
+	 * Locate the operation's change in the current note content
+	 * @returns Offset of the inserted text, -1 if it is no longer there (already reverted),
+	 * or null if it cannot be located unambiguously
+	 */
+	private findChange(content: string, operation: ImageOperation): number | null {
+		const change = operation.change;
+		if (!change) {
+			return -1;
+		}
+		if (content === operation.after) {
+			return change.offset;
+		}
+		if (!change.inserted) {
+			return null;
+		}
+
+		const index = content.indexOf(change.inserted);
+		if (index === -1) {
+			return -1;
+		}
+		return content.indexOf(change.inserted, index + 1) === -1 ? index : null;
+	}
+
+	/**
+	 * Find a note that references one of the files outside the operation's own inserted text
+	 */
+	private async findReferencingNote(
+		files: TFile[],
+		operation: ImageOperation,
+		content: string,
+		position: number
+	): Promise<{ file: TFile; note: TFile } | null> {
+		const inserted = position >= 0 ? operation.change?.inserted ?? '' : '';
+		const countReferences = (text: string, file: TFile) => {
+			return this.referenceService.extractReferences(text).filter((reference) => {
+				return this.referenceService.resolveReference(reference.linkPath, operation.note.path)?.path === file.path;
+			}).length;
+		};
+
+		for (const file of files) {
+			const others = (await this.referenceService.findReferences(file))
+				.find((entry) => entry.note.path !== operation.note.path);
+			if (others) {
+				return { file, note: others.note };
+			}
+
+			// Within the note itself, only the inserted text may reference the file
+			if (countReferences(content, file) > countReferences(inserted, file)) {
+				return { file, note: operation.note };
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Reduce an edit to the changed region between the common prefix and suffix
+	 */
+	private diff(before: string, after: string): NoteChange | null {
+		if (before === after) {
+			return null;
+		}
+
+		let prefix = 0;
+		while (prefix < before.length && prefix < after.length && before[prefix] === after[prefix]) {
+			prefix++;
+		}
+		let suffix = 0;
+		while (
+			suffix < before.length - prefix &&
+			suffix < after.length - prefix &&
+			before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+		) {
+			suffix++;
+		}
+
+		return {
+			offset: prefix,
+			inserted: after.substring(prefix, after.length - suffix),
+			removed: before.substring(prefix, before.length - suffix),
+		};
+	}
+
+	/**
+	 * Get the editor of an open markdown view showing the note
+	 */
+	private getOpenEditor(note: TFile): Editor | null {
+		for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+			if (leaf.view instanceof MarkdownView && leaf.view.file === note) {
+				return leaf.view.editor;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
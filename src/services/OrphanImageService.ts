@@ -0,0 +1,240 @@
+/**
+ * Orphan Image Service
+ * Finds images no note references and trashes, moves or whitelists them
+ */
+
+import { App, TFile } from 'obsidian';
+import { DEFAULT_SETTINGS, ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceService } from './ReferenceService';
+import { ResponsiveImageService } from './ResponsiveImageService';
+import { IMAGE_EXTENSIONS } from '../utils/file-types';
+import { matchesGlob } from '../utils/glob';
+import { isAnnotationOriginal } from '../utils/annotations';
+
+// Anything that looks like an image file name: srcset entries, custom property formats, canvas nodes, code
+const IMAGE_MENTION_PATTERN = new RegExp(`[^\\s"'()<>[\\]|,{}=]+\\.(?:${IMAGE_EXTENSIONS.join('|')})(?=[\\s"'()<>[\\]|,{}?#]|$)`, 'gi');
+
+export class OrphanImageService {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+	private responsiveImageService: ResponsiveImageService;
+	private saveSettings: () => Promise<void>;
+
+	/**
+	 * @param saveSettings - Persists the whitelist
+	 */
+	constructor(
+		app: App,
+		settings: ImageManagerSettings,
+		storageManager: StorageManager,
+		referenceService: ReferenceService,
+		responsiveImageService: ResponsiveImageService,
+		saveSettings: () => Promise<void>
+	) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+		this.responsiveImageService = responsiveImageService;
+		this.saveSettings = saveSettings;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Find images that no note or canvas references, oldest first
+	 * Whitelisted images, originals kept for annotated images and width variants of referenced images
+	 * (which a plain link doesn't mention, but a site build uses) are never reported
+	 */
+	async findOrphans(onProgress?: (done: number, total: number) => void): Promise<TFile[]> {
+		const referenced = new Set<string>();
+		// Names of mentioned images that didn't resolve (e.g. "/assets/{image-url}" custom formats written for a site);
+		// images with these names are kept rather than risk trashing one in use
+		const unresolvedNames = new Set<string>();
+
+		// Obsidian's own index also has links from other plugins' file types
+		for (const links of Object.values(this.app.metadataCache.resolvedLinks)) {
+			for (const path of Object.keys(links)) {
+				referenced.add(path);
+			}
+		}
+
+		const notes = [
+			...this.referenceService.getNoteFiles(),
+			...this.app.vault.getFiles().filter((file) => file.extension === 'canvas'),
+		];
+		for (let i = 0; i < notes.length; i++) {
+			const note = notes[i];
+			if (!note) {
+				continue;
+			}
+			const content = await this.app.vault.cachedRead(note);
+			if (note.extension === 'canvas') {
+				this.collectCanvasFiles(content, referenced);
+			} else {
+				this.collectReferences(note, content, referenced, unresolvedNames);
+				await this.collectBannerProperties(note, referenced);
+			}
+			onProgress?.(i + 1, notes.length);
+		}
+
+		return this.app.vault.getFiles()
+			.filter((file) => {
+				return this.storageManager.isImageFile(file) &&
+					!referenced.has(file.path) &&
+					!unresolvedNames.has(file.name.toLowerCase()) &&
+					!isAnnotationOriginal(file) &&
+					!this.isVariantOfReferenced(file, referenced) &&
+					!this.isWhitelisted(file);
+			})
+			.sort((a, b) => a.stat.ctime - b.stat.ctime);
+	}
+
+	/**
+	 * Check whether an image matches a whitelist entry (a path or glob pattern)
+	 */
+	isWhitelisted(file: TFile): boolean {
+		return this.settings.orphanWhitelist.some((entry) => entry === file.path || matchesGlob(file.path, entry));
+	}
+
+	/**
+	 * Move images to trash (system or vault trash, as set in Obsidian)
+	 * @returns Images trashed
+	 */
+	async trashImages(files: TFile[]): Promise<TFile[]> {
+		const trashed: TFile[] = [];
+		for (const file of files) {
+			try {
+				await this.app.fileManager.trashFile(file);
+				trashed.push(file);
+			} catch (error) {
+				console.error(`[Image Manager] Failed to trash ${file.path}:`, error);
+			}
+		}
+		this.log(`Trashed ${trashed.length} orphaned image(s)`);
+		return trashed;
+	}
+
+	/**
+	 * Folder images are moved to
+	 */
+	getMoveFolder(): string {
+		return this.settings.orphanFolder || DEFAULT_SETTINGS.orphanFolder;
+	}
+
+	/**
+	 * Move images into the orphaned images folder, keeping their names unless taken
+	 * @returns Images moved
+	 */
+	async moveImages(files: TFile[]): Promise<TFile[]> {
+		const folder = this.getMoveFolder();
+		await this.storageManager.ensureFolderExists(folder);
+		const moved: TFile[] = [];
+		for (const file of files) {
+			if (file.parent?.path === folder) {
+				continue;
+			}
+			try {
+				const path = this.storageManager.getAvailablePathInFolder(folder, file.basename, file.extension);
+				await this.app.fileManager.renameFile(file, path);
+				moved.push(file);
+			} catch (error) {
+				console.error(`[Image Manager] Failed to move ${file.path}:`, error);
+			}
+		}
+		this.log(`Moved ${moved.length} orphaned image(s) to "${folder}"`);
+		return moved;
+	}
+
+	/**
+	 * Add images to the whitelist so they are no longer reported
+	 */
+	async whitelistImages(files: TFile[]): Promise<void> {
+		const paths = files.map((file) => file.path).filter((path) => !this.settings.orphanWhitelist.includes(path));
+		if (paths.length === 0) {
+			return;
+		}
+		this.settings.orphanWhitelist = [...this.settings.orphanWhitelist, ...paths];
+		await this.saveSettings();
+	}
+
+	/**
+	 * Add the files a note references to the set, from links and from any image file name it mentions
+	 */
+	private collectReferences(note: TFile, content: string, referenced: Set<string>, unresolvedNames: Set<string>): void {
+		for (const reference of this.referenceService.extractReferences(content)) {
+			const target = this.referenceService.resolveReference(reference.linkPath, note.path);
+			if (target) {
+				referenced.add(target.path);
+			}
+		}
+
+		for (const match of content.matchAll(IMAGE_MENTION_PATTERN)) {
+			const mention = match[0];
+			const target = this.referenceService.resolveReference(mention, note.path);
+			if (target) {
+				referenced.add(target.path);
+			} else {
+				const name = mention.substring(mention.lastIndexOf('/') + 1);
+				try {
+					unresolvedNames.add(decodeURIComponent(name).toLowerCase());
+				} catch {
+					unresolvedNames.add(name.toLowerCase());
+				}
+			}
+		}
+	}
+
+	/**
+	 * Add the files of a canvas's file nodes to the set
+	 */
+	private collectCanvasFiles(content: string, referenced: Set<string>): void {
+		try {
+			const canvas = JSON.parse(content) as { nodes?: { type?: string; file?: string }[] };
+			for (const node of canvas.nodes ?? []) {
+				if (node.type === 'file' && node.file) {
+					referenced.add(node.file);
+				}
+			}
+		} catch {
+			// Not valid canvas JSON; nothing to collect
+		}
+	}
+
+	/**
+	 * Resolve the banner and icon properties, which may name an image without an extension
+	 */
+	private async collectBannerProperties(note: TFile, referenced: Set<string>): Promise<void> {
+		for (const linkPath of await this.referenceService.getBannerLinkPaths(note)) {
+			const target = this.referenceService.resolveReference(linkPath, note.path);
+			if (target) {
+				referenced.add(target.path);
+			}
+		}
+	}
+
+	/**
+	 * Check whether an image is a responsive width variant of a referenced image
+	 */
+	private isVariantOfReferenced(file: TFile, referenced: Set<string>): boolean {
+		const original = this.responsiveImageService.getVariantOriginal(file);
+		return original !== null && referenced.has(original.path);
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -3,10 +3,46 @@
  * Handles paste events for images in the editor and frontmatter properties
  */
 
-import { App, MarkdownView, Notice, Editor } from 'obsidian';
-import { ImageManagerSettings } from '../types';
+import { App, MarkdownView, Notice, Editor, TFile, htmlToMarkdown } from 'obsidian';
+import { ImageManagerSettings, ImageSource, ProcessedImage } from '../types';
 import { ImageProcessor } from './ImageProcessor';
 import { PropertyHandler } from './PropertyHandler';
+import { isExternalUrl, isImageUrlCandidate, verifyImageUrl } from '../utils/image-url';
+
+/**
+ * Get the URL if text is exactly one http(s) URL that may point to an image
+ * CDN and "?format=" URLs often have no image extension, so whether it is one is checked later
+ */
+function parseImageUrl(text: string): string | null {
+	const url = text.trim();
+	if (!url || /\s/.test(url) || !isExternalUrl(url) || !isImageUrlCandidate(url)) {
+		return null;
+	}
+	return url;
+}
+
+/**
+ * Download a remote image and insert a link to the local file at the cursor
+ * Inserts the fallback text instead if the URL is not an image or the download is cancelled/fails
+ */
+async function insertImageFromUrl(
+	imageProcessor: ImageProcessor,
+	editor: Editor,
+	activeFile: TFile,
+	url: string,
+	fallbackText: string,
+	showRenameModal: boolean
+): Promise<void> {
+	if (!(await verifyImageUrl(url))) {
+		editor.replaceSelection(fallbackText);
+		return;
+	}
+
+	const result = await imageProcessor.processImageUrl(url, activeFile, showRenameModal);
+	await imageProcessor.applyInsertion(activeFile, [result], () => {
+		editor.replaceSelection(result.success && result.linkText ? result.linkText : fallbackText);
+	}, editor);
+}
 
 export class PasteHandler {
 	private app: App;
@@ -14,6 +50,9 @@ export class PasteHandler {
 	private imageProcessor: ImageProcessor;
 	private propertyHandler: PropertyHandler;
 
+	// Shift held while pasting keeps the plain URL (paste events carry no modifier state)
+	private shiftHeld = false;
+
 	constructor(
 		app: App,
 		settings: ImageManagerSettings,
@@ -33,6 +72,14 @@ export class PasteHandler {
 		this.settings = settings;
 	}
 
+	/**
+	 * Track modifier keys for the next paste
+	 * This is registered via document keydown/keyup events
+	 */
+	handleKeyEvent(evt: KeyboardEvent): void {
+		this.shiftHeld = evt.shiftKey;
+	}
+
 	/**
 	 * Handle editor paste event
 	 * This is registered via workspace.on('editor-paste')
@@ -42,32 +89,29 @@ export class PasteHandler {
 		editor: Editor,
 		view: MarkdownView
 	): Promise<boolean> {
-		if (!this.settings.showRenameDialog || !this.settings.enableRenameOnPaste) {
-			return false; // Let Obsidian handle it
-		}
-
 		// Check if we're in a frontmatter property field - if so, let property paste handler take over
 		const activeEl = document.activeElement as HTMLElement;
 		if (activeEl && this.isFrontmatterField(activeEl)) {
 			return false; // Let property paste handler handle it
 		}
 
-		const files = evt.clipboardData?.files;
-		if (!files || files.length === 0) {
-			return false; // No files, let Obsidian handle it
-		}
-
-		// Check if any of the files are images
+		// Check if any of the pasted files are images (or other managed attachment types)
 		const imageFiles: File[] = [];
-		for (let i = 0; i < files.length; i++) {
-			const file = files.item(i);
-			if (file && file.type.startsWith('image/')) {
+		const files = evt.clipboardData?.files;
+		for (let i = 0; i < (files?.length ?? 0); i++) {
+			const file = files?.item(i);
+			if (file && this.imageProcessor.isManagedFile(file)) {
 				imageFiles.push(file);
 			}
 		}
 
 		if (imageFiles.length === 0) {
-			return false; // No images, let Obsidian handle it
+			// No image files - may be a link to an image, or HTML from a web page with remote images
+			return this.handleUrlPaste(evt, editor, view) || this.handleHtmlPaste(evt, editor, view);
+		}
+
+		if (!this.settings.showRenameDialog || !this.settings.enableRenameOnPaste) {
+			return false; // Let Obsidian handle it
 		}
 
 		// We're handling this - prevent default
@@ -79,26 +123,141 @@ export class PasteHandler {
 			return true;
 		}
 
-			// Process each image
-		for (let i = 0; i < imageFiles.length; i++) {
-			const imageFile = imageFiles[i];
-			if (!imageFile) continue;
-			
-			const result = await this.imageProcessor.processImageFile(
-				imageFile,
+		// Process all images (several at once are named in one batch modal)
+		const results = await this.imageProcessor.processImageFiles(imageFiles, activeFile, ImageSource.Paste);
+		await this.imageProcessor.applyInsertion(activeFile, results, () => {
+			for (const result of results) {
+				if (result.success && result.linkText) {
+					// Insert the link at cursor
+					editor.replaceSelection(result.linkText);
+				}
+			}
+		}, editor);
+
+		return true;
+	}
+
+	/**
+	 * Handle a pasted image URL: download it and insert a local image
+	 * The decision is made synchronously (the URL is verified after preventing the default
+	 * paste), so non-image URLs are inserted as plain text by us
+	 */
+	private handleUrlPaste(evt: ClipboardEvent, editor: Editor, view: MarkdownView): boolean {
+		if (!this.settings.enableUrlPaste || this.shiftHeld) {
+			return false;
+		}
+
+		// Pasting a URL over selected text creates a link in Obsidian - keep that behavior
+		const text = evt.clipboardData?.getData('text/plain') ?? '';
+		const url = parseImageUrl(text);
+		const activeFile = view.file;
+		if (!url || !activeFile || editor.somethingSelected()) {
+			return false;
+		}
+
+		// We're handling this - prevent default
+		evt.preventDefault();
+
+		const showRenameModal = this.settings.showRenameDialog && this.settings.enableRenameOnPaste;
+		void insertImageFromUrl(this.imageProcessor, editor, activeFile, url, text, showRenameModal);
+		return true;
+	}
+
+	/**
+	 * Handle pasted HTML (e.g., a section copied from a web page): convert it to markdown
+	 * and download its images to the vault, using the alt text as display text
+	 */
+	private async handleHtmlPaste(
+		evt: ClipboardEvent,
+		editor: Editor,
+		view: MarkdownView
+	): Promise<boolean> {
+		if (!this.settings.enableHtmlPaste) {
+			return false;
+		}
+
+		const html = evt.clipboardData?.getData('text/html');
+		if (!html || !/<img\b/i.test(html)) {
+			return false; // No images, let Obsidian handle it
+		}
+
+		const activeFile = view.file;
+		if (!activeFile) {
+			return false;
+		}
+
+		// We're handling this - prevent default
+		evt.preventDefault();
+
+		let markdown = htmlToMarkdown(this.resolveLazyImages(html));
+		const images = this.findRemoteImages(markdown);
+		if (images.length > 0) {
+			new Notice(`Downloading ${images.length} image(s)...`);
+		}
+
+		const showRenameModal = this.settings.showRenameDialog && this.settings.enableRenameOnPaste;
+		const downloaded = new Map<string, ProcessedImage>();
+		for (const image of images) {
+			// The same image may appear more than once - download it only once
+			const result = downloaded.get(image.url) ?? await this.imageProcessor.processImageUrl(
+				image.url,
 				activeFile,
-				true // Show rename modal
+				showRenameModal,
+				false,
+				image.alt.substring(0, 60).trim() || undefined,
+				image.alt || undefined
 			);
+			downloaded.set(image.url, result);
 
+			// Failed or cancelled downloads keep the remote link
 			if (result.success && result.linkText) {
-				// Insert the link at cursor
-				editor.replaceSelection(result.linkText);
+				markdown = markdown.replace(image.fullMatch, result.linkText);
 			}
 		}
 
+		await this.imageProcessor.applyInsertion(activeFile, [...downloaded.values()], () => {
+			editor.replaceSelection(markdown);
+		}, editor);
 		return true;
 	}
 
+	/**
+	 * Point lazy-loaded images (placeholder src with data-src/srcset) at the real image
+	 */
+	private resolveLazyImages(html: string): Document {
+		const doc = new DOMParser().parseFromString(html, 'text/html');
+		doc.querySelectorAll('img').forEach((img) => {
+			const src = img.getAttribute('src') ?? '';
+			if (src && !src.startsWith('data:')) {
+				return;
+			}
+			const lazySrc = img.getAttribute('data-src')
+				?? img.getAttribute('data-lazy-src')
+				?? (img.getAttribute('srcset') ?? img.getAttribute('data-srcset'))?.split(',').pop()?.trim().split(/\s+/)[0];
+			if (lazySrc) {
+				img.setAttribute('src', lazySrc);
+			}
+		});
+		return doc;
+	}
+
+	/**
+	 * Find markdown images with remote (http/https) URLs
+	 */
+	private findRemoteImages(markdown: string): { fullMatch: string; alt: string; url: string }[] {
+		const images: { fullMatch: string; alt: string; url: string }[] = [];
+		const imageRegex = /!\[([^\]]*)\]\(\s*<?(https?:\/\/[^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+		let match;
+		while ((match = imageRegex.exec(markdown)) !== null) {
+			images.push({
+				fullMatch: match[0],
+				alt: (match[1] ?? '').replace(/\\([[\]])/g, '$1'),
+				url: match[2] ?? '',
+			});
+		}
+		return images;
+	}
+
 	/**
 	 * Handle paste into frontmatter property
 	 * This is registered via document paste event with property detection
@@ -184,11 +343,10 @@ export class PasteHandler {
 			const linkValue = this.propertyHandler.formatPropertyLink(result.file, activeFile);
 			
 			// Update the frontmatter property directly
-			await this.propertyHandler.setPropertyValue(
-				activeFile,
-				propertyName,
-				result.file
-			);
+			const savedFile = result.file;
+			await this.imageProcessor.applyInsertion(activeFile, [result], async () => {
+				await this.propertyHandler.setPropertyValue(activeFile, propertyName, savedFile);
+			});
 			
 			// Wait for Obsidian to process the file change and update metadata cache
 			await new Promise(resolve => setTimeout(resolve, 300));
@@ -339,25 +497,22 @@ export class DropHandler {
 		editor: Editor,
 		view: MarkdownView
 	): Promise<boolean> {
-		if (!this.settings.showRenameDialog || !this.settings.enableRenameOnDrop) {
-			return false;
-		}
-
-		const files = evt.dataTransfer?.files;
-		if (!files || files.length === 0) {
-			return false;
-		}
-
-		// Check for image files
+		// Check for image files (or other managed attachment types)
 		const imageFiles: File[] = [];
-		for (let i = 0; i < files.length; i++) {
-			const f = files.item(i);
-			if (f && f.type.startsWith('image/')) {
+		const files = evt.dataTransfer?.files;
+		for (let i = 0; i < (files?.length ?? 0); i++) {
+			const f = files?.item(i);
+			if (f && this.imageProcessor.isManagedFile(f)) {
 				imageFiles.push(f);
 			}
 		}
 
 		if (imageFiles.length === 0) {
+			// No image files - may be an image dragged out of a browser (URL only)
+			return this.handleUrlDrop(evt, editor, view);
+		}
+
+		if (!this.settings.showRenameDialog || !this.settings.enableRenameOnDrop) {
 			return false;
 		}
 
@@ -370,22 +525,62 @@ export class DropHandler {
 			return true;
 		}
 
-		// Process each image
-		for (let i = 0; i < imageFiles.length; i++) {
-			const imageFile = imageFiles[i];
-			if (!imageFile) continue;
-			
-			const result = await this.imageProcessor.processImageFile(
-				imageFile,
-				activeFile,
-				true
-			);
-
-			if (result.success && result.linkText) {
-				editor.replaceSelection(result.linkText);
+		// Process all images (several at once are named in one batch modal)
+		const results = await this.imageProcessor.processImageFiles(imageFiles, activeFile, ImageSource.Drop);
+		await this.imageProcessor.applyInsertion(activeFile, results, () => {
+			for (const result of results) {
+				if (result.success && result.linkText) {
+					editor.replaceSelection(result.linkText);
+				}
 			}
+		}, editor);
+
+		return true;
+	}
+
+	/**
+	 * Handle dropped image URLs (text/uri-list or plain text): download them and insert local images
+	 * Holding Shift keeps the plain URL behavior
+	 */
+	private handleUrlDrop(evt: DragEvent, editor: Editor, view: MarkdownView): boolean {
+		if (!this.settings.enableUrlPaste || evt.shiftKey) {
+			return false;
+		}
+
+		// text/uri-list has one URL per line, with # comment lines
+		const uriList = evt.dataTransfer?.getData('text/uri-list') ?? '';
+		const text = uriList || (evt.dataTransfer?.getData('text/plain') ?? '');
+		const lines = text.split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+		const urls = lines.map((line) => parseImageUrl(line));
+		const activeFile = view.file;
+		if (urls.length === 0 || urls.some((url) => !url) || !activeFile) {
+			return false;
 		}
 
+		// We're handling this - prevent default
+		evt.preventDefault();
+		this.moveCursorToDrop(evt, editor);
+
+		const showRenameModal = this.settings.showRenameDialog && this.settings.enableRenameOnDrop;
+		void (async () => {
+			for (const url of urls) {
+				if (url) {
+					await insertImageFromUrl(this.imageProcessor, editor, activeFile, url, url, showRenameModal);
+				}
+			}
+		})();
 		return true;
 	}
+
+	/**
+	 * Place the cursor where the drop happened, so links are inserted there
+	 */
+	private moveCursorToDrop(evt: DragEvent, editor: Editor): void {
+		// Obsidian's editor wraps a CodeMirror view, which can map screen coordinates to an offset
+		const cm = (editor as unknown as { cm?: { posAtCoords(coords: { x: number; y: number }): number | null } }).cm;
+		const offset = cm?.posAtCoords({ x: evt.clientX, y: evt.clientY });
+		if (offset !== null && offset !== undefined) {
+			editor.setCursor(editor.offsetToPos(offset));
+		}
+	}
 }
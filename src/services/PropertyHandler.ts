@@ -4,7 +4,7 @@
  */
 
 import { App, TFile, Notice } from 'obsidian';
-import { ImageManagerSettings, PropertyLinkFormat, RemoteImage } from '../types';
+import { ImageManagerSettings, LinkPathStyle, PropertyLinkFormat, RemoteImage } from '../types';
 import { isMdxFile, processMdxFrontMatter } from '../utils/mdx-frontmatter';
 import { StorageManager } from './StorageManager';
 import { ImageProcessor } from './ImageProcessor';
@@ -117,18 +117,19 @@ export class PropertyHandler {
 		let pathToUse: string;
 
 		switch (this.settings.propertyLinkFormat) {
-			case PropertyLinkFormat.RelativePath:
-				// Use relative path: always use ./image.jpg format for consistency
-				// This works whether same folder or different folder
-				pathToUse = `./${imageFile.name}`;
+			case PropertyLinkFormat.RelativePath: {
+				// Always start with ./ or ../ so static site generators treat it as relative
+				const relativePath = this.storageManager.getRelativePath(noteFile, imageFile);
+				pathToUse = relativePath.startsWith('../') ? relativePath : `./${relativePath}`;
 				break;
+			}
 			case PropertyLinkFormat.Custom:
 				// For custom format, use just the filename so user can control the full path
 				pathToUse = imageFile.name;
 				break;
 			case PropertyLinkFormat.Path:
 			default:
-				pathToUse = this.getRelativePath(noteFile, imageFile);
+				pathToUse = this.getLinkPath(noteFile, imageFile);
 				break;
 		}
 
@@ -136,7 +137,7 @@ export class PropertyHandler {
 			case PropertyLinkFormat.Wikilink:
 				return `[[${pathToUse}]]`;
 			case PropertyLinkFormat.Markdown:
-				return `![](${encodeURI(pathToUse)})`;
+				return `![](${this.storageManager.encodeLinkPath(pathToUse)})`;
 			case PropertyLinkFormat.Custom:
 				// Replace {image-url} placeholder with the image filename
 				return this.settings.customPropertyLinkFormat.replace(
@@ -151,22 +152,15 @@ export class PropertyHandler {
 	}
 
 	/**
-	 * Get relative path from note to image
+	 * Get the path from note to image in the configured link path style
 	 */
-	private getRelativePath(fromFile: TFile, toFile: TFile): string {
-		// If using wikilinks, we can use just the file name
-		// Access Obsidian's internal config (not in public API types but accessible at runtime)
-		const vaultConfig = (this.app.vault as unknown as { config?: { useMarkdownLinks?: boolean } }).config;
-		const useMarkdownLinks = vaultConfig?.useMarkdownLinks ?? false;
-		const useWikilinks = !useMarkdownLinks;
-
-		if (useWikilinks && this.settings.propertyLinkFormat === PropertyLinkFormat.Wikilink) {
-			// For wikilinks, just use the file name
-			return toFile.name;
+	private getLinkPath(fromFile: TFile, toFile: TFile): string {
+		const wikilink = this.settings.propertyLinkFormat === PropertyLinkFormat.Wikilink;
+		if (wikilink && this.settings.linkPathStyle === LinkPathStyle.ObsidianDefault) {
+			// Wikilinks resolve by name, so the shortest unique link text works anywhere
+			return this.app.metadataCache.fileToLinktext(toFile, fromFile.path, false);
 		}
-
-		// For markdown links and paths, use relative path
-		return this.storageManager.getRelativePath(fromFile, toFile);
+		return this.storageManager.getLinkPath(toFile, fromFile.path, wikilink);
 	}
 
 	/**
@@ -216,17 +210,20 @@ export class PropertyHandler {
 			throw new Error(result.error || 'Failed to process image');
 		}
 
-		// Set the property
-		await this.setPropertyValue(noteFile, propertyName, result.file);
-
-		// Append referral text at end of file if enabled and we have RemoteImage info
-		if (this.settings.appendReferral && remoteImage && this.remoteService) {
-			const referralText = this.remoteService.generateReferralText(remoteImage);
-			if (referralText) {
-				const content = await this.app.vault.read(noteFile);
-				const updatedContent = content + referralText;
-				await this.app.vault.modify(noteFile, updatedContent);
+		// Set the property and append the referral as one undoable operation
+		const imageFile = result.file;
+		await this.imageProcessor.applyInsertion(noteFile, [result], async () => {
+			await this.setPropertyValue(noteFile, propertyName, imageFile);
+
+			// Append referral text at end of file if enabled and we have RemoteImage info
+			if (this.settings.appendReferral && remoteImage && this.remoteService) {
+				const referralText = this.remoteService.generateReferralText(remoteImage);
+				if (referralText) {
+					const content = await this.app.vault.read(noteFile);
+					const updatedContent = content + referralText;
+					await this.app.vault.modify(noteFile, updatedContent);
+				}
 			}
-		}
+		});
 	}
 }
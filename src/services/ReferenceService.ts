@@ -0,0 +1,378 @@
+/**
+ * Reference Service
+ * Finds and rewrites references to vault files in md/mdx notes
+ * (wikilinks, markdown links, HTML img tags, MDX imports and frontmatter values)
+ */
+
+import { App, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { getFolderPath, getRelativePath, resolveRelativePath } from '../utils/path';
+import { getFrontmatter } from '../utils/mdx-frontmatter';
+
+/**
+ * Syntax a reference was written in
+ */
+export enum ReferenceKind {
+	Wikilink = 'wikilink',       // [[image.png]] / ![[image.png|alias]]
+	Markdown = 'markdown',       // ![alt](path/image.png)
+	Html = 'html',               // <img src="path/image.png">
+	MdxImport = 'import',        // import image from './image.png'
+	Frontmatter = 'frontmatter', // image: path/image.png
+}
+
+/**
+ * A reference to a file inside a note's content
+ */
+export interface FileReference {
+	kind: ReferenceKind;
+	linkPath: string; // Target as written (without <>, #subpath or |alias)
+	start: number; // Offset of linkPath in the content
+	end: number;
+}
+
+/**
+ * All references in a note that resolve to a given file
+ */
+export interface NoteReferences {
+	note: TFile;
+	references: FileReference[];
+}
+
+// Extensions that can be referenced as bare paths in frontmatter
+const FRONTMATTER_PATH_PATTERN = /\.(png|jpe?g|gif|webp|svg|bmp|tiff?|avif|pdf|mp3|mp4|webm|wav|ogg|m4a|mov)$/i;
+
+export class ReferenceService {
+	private app: App;
+	private settings: ImageManagerSettings;
+
+	constructor(app: App, settings: ImageManagerSettings) {
+		this.app = app;
+		this.settings = settings;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Get all notes whose references are tracked (md plus supported extensions such as mdx)
+	 */
+	getNoteFiles(): TFile[] {
+		return this.app.vault.getFiles().filter((file) => {
+			return file.extension === 'md' || this.settings.supportedExtensions.includes(file.extension);
+		});
+	}
+
+	/**
+	 * Extract local file references from note content
+	 * External URLs are skipped
+	 */
+	extractReferences(content: string): FileReference[] {
+		const references: FileReference[] = [];
+		const add = (kind: ReferenceKind, linkPath: string, start: number) => {
+			if (!linkPath || this.isExternal(linkPath)) {
+				return;
+			}
+			references.push({ kind, linkPath, start, end: start + linkPath.length });
+		};
+
+		let match: RegExpExecArray | null;
+
+		// Wikilinks: [[path]], ![[path|alias]], [[path#heading]]
+		const wikilinkRegex = /!?\[\[([^\]|#^\n]+)[^\]\n]*\]\]/g;
+		while ((match = wikilinkRegex.exec(content)) !== null) {
+			const linkPath = match[1] ?? '';
+			const offset = match[0].startsWith('!') ? 3 : 2;
+			add(ReferenceKind.Wikilink, linkPath.trimEnd(), match.index + offset);
+		}
+
+		// Markdown links: [text](path), ![alt](<path with spaces> "title")
+		const markdownRegex = /!?\[[^\]\n]*\]\(\s*(<[^>\n]+>|[^)\s]+)(?:\s+["'][^)\n]*["'])?\s*\)/g;
+		while ((match = markdownRegex.exec(content)) !== null) {
+			const rawTarget = match[1] ?? '';
+			const bracketed = rawTarget.startsWith('<');
+			const linkPath = bracketed ? rawTarget.slice(1, -1) : rawTarget;
+			const targetOffset = match[0].indexOf(rawTarget, match[0].indexOf('](') + 2);
+			add(ReferenceKind.Markdown, linkPath, match.index + targetOffset + (bracketed ? 1 : 0));
+		}
+
+		// HTML images: <img src="path">
+		const htmlRegex = /<img\b[^>]*?\bsrc\s*=\s*(["'])([^"'\n]+)\1/gi;
+		while ((match = htmlRegex.exec(content)) !== null) {
+			const linkPath = match[2] ?? '';
+			add(ReferenceKind.Html, linkPath, match.index + match[0].length - 1 - linkPath.length);
+		}
+
+		// MDX imports: import image from './image.png'
+		const importRegex = /^import\s+[^'"\n]+\s+from\s+(["'])([^"'\n]+)\1/gm;
+		while ((match = importRegex.exec(content)) !== null) {
+			const linkPath = match[2] ?? '';
+			add(ReferenceKind.MdxImport, linkPath, match.index + match[0].length - 1 - linkPath.length);
+		}
+
+		// Bare paths in frontmatter (links in frontmatter are covered above)
+		references.push(...this.extractFrontmatterPaths(content));
+
+		return references;
+	}
+
+	/**
+	 * Resolve a reference's link path to a vault file
+	 * Tries vault-absolute ("/path"), relative to the note, then Obsidian's link resolution
+	 */
+	resolveReference(linkPath: string, sourcePath: string): TFile | null {
+		let path = linkPath.split('#')[0]?.split('?')[0] ?? '';
+		try {
+			path = decodeURI(path);
+		} catch {
+			// Keep the raw path if it isn't valid URI encoding
+		}
+		if (!path || this.isExternal(path)) {
+			return null;
+		}
+
+		if (path.startsWith('/')) {
+			const file = this.app.vault.getAbstractFileByPath(path.slice(1));
+			return file instanceof TFile ? file : null;
+		}
+
+		const relativePath = resolveRelativePath(getFolderPath(sourcePath), path);
+		if (relativePath) {
+			const file = this.app.vault.getAbstractFileByPath(relativePath);
+			if (file instanceof TFile) {
+				return file;
+			}
+		}
+
+		return this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+	}
+
+	/**
+	 * Get the link paths of a note's banner and icon properties, which may name an image without an extension
+	 * ("[[cover]]" gives "cover", "![](cover.png)" gives "cover.png")
+	 */
+	async getBannerLinkPaths(note: TFile): Promise<string[]> {
+		const frontmatter = await getFrontmatter(this.app, note);
+		if (!frontmatter) {
+			return [];
+		}
+
+		const { imageProperty, iconProperty } = this.settings.banner.properties;
+		const linkPaths: string[] = [];
+		for (const key of [imageProperty, iconProperty]) {
+			const value: unknown = key ? frontmatter[key] : undefined;
+			if (typeof value !== 'string') {
+				continue;
+			}
+			const linkPath = value
+				.replace(/^!?\[\[([^\]|#]+).*$/, '$1')
+				.replace(/^!?\[[^\]]*\]\(<?([^)>]+)>?\)$/, '$1')
+				.trim();
+			if (linkPath && !this.isExternal(linkPath)) {
+				linkPaths.push(linkPath);
+			}
+		}
+		return linkPaths;
+	}
+
+	/**
+	 * Find every note reference that resolves to the target file
+	 */
+	async findReferences(target: TFile): Promise<NoteReferences[]> {
+		const results: NoteReferences[] = [];
+		for (const note of this.getNoteFiles()) {
+			const content = await this.app.vault.cachedRead(note);
+			const references = this.extractReferences(content).filter((reference) => {
+				return this.resolveReference(reference.linkPath, note.path)?.path === target.path;
+			});
+			if (references.length > 0) {
+				results.push({ note, references });
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Map each referenced file path to the notes that reference it (one pass over all notes)
+	 */
+	async buildReferenceIndex(): Promise<Map<string, TFile[]>> {
+		const index = new Map<string, TFile[]>();
+		for (const note of this.getNoteFiles()) {
+			const content = await this.app.vault.cachedRead(note);
+			const targets = new Set<string>();
+			for (const reference of this.extractReferences(content)) {
+				const target = this.resolveReference(reference.linkPath, note.path);
+				if (target) {
+					targets.add(target.path);
+				}
+			}
+			for (const path of targets) {
+				const notes = index.get(path) ?? [];
+				notes.push(note);
+				index.set(path, notes);
+			}
+		}
+		return index;
+	}
+
+	/**
+	 * Split files a note references into those only this note uses and those other notes use too
+	 */
+	async partitionByOwner(note: TFile, files: TFile[]): Promise<{ owned: TFile[]; shared: TFile[] }> {
+		const index = await this.buildReferenceIndex();
+		const owned: TFile[] = [];
+		const shared: TFile[] = [];
+		for (const file of files) {
+			const usedElsewhere = (index.get(file.path) ?? []).some((other) => other.path !== note.path);
+			(usedElsewhere ? shared : owned).push(file);
+		}
+		return { owned, shared };
+	}
+
+	/**
+	 * Point every reference to the replaced files at their replacement
+	 * @param replacements - Map of old file path to the file that replaces it
+	 * @returns Number of notes modified
+	 */
+	async replaceReferences(replacements: Map<string, TFile>): Promise<number> {
+		let modified = 0;
+		for (const note of this.getNoteFiles()) {
+			// Only touch notes that actually reference a replaced file
+			const cached = await this.app.vault.cachedRead(note);
+			if (this.rewriteContent(cached, note, replacements) === cached) {
+				continue;
+			}
+			await this.app.vault.process(note, (content) => this.rewriteContent(content, note, replacements));
+			modified++;
+		}
+		return modified;
+	}
+
+	/**
+	 * Rewrite references in note content according to a replacement map
+	 */
+	rewriteContent(content: string, note: TFile, replacements: Map<string, TFile>): string {
+		const edits: { start: number; end: number; text: string }[] = [];
+		for (const reference of this.extractReferences(content)) {
+			const current = this.resolveReference(reference.linkPath, note.path);
+			const replacement = current ? replacements.get(current.path) : undefined;
+			if (!replacement) {
+				continue;
+			}
+			edits.push({
+				start: reference.start,
+				end: reference.end,
+				text: this.buildLinkPath(reference, replacement, note.path),
+			});
+		}
+		return this.applyEdits(content, edits);
+	}
+
+	/**
+	 * Rewrite references in note content by the link path they were written with
+	 * For targets that already moved, whose old links no longer resolve
+	 * @param targets - Map of link path (as written) to the file it pointed at
+	 */
+	rewriteLinkPaths(content: string, note: TFile, targets: Map<string, TFile>): string {
+		const edits: { start: number; end: number; text: string }[] = [];
+		for (const reference of this.extractReferences(content)) {
+			const target = targets.get(reference.linkPath);
+			if (target) {
+				edits.push({
+					start: reference.start,
+					end: reference.end,
+					text: this.buildLinkPath(reference, target, note.path),
+				});
+			}
+		}
+		return this.applyEdits(content, edits);
+	}
+
+	private applyEdits(content: string, edits: { start: number; end: number; text: string }[]): string {
+		// Apply from the end so earlier offsets stay valid
+		edits.sort((a, b) => b.start - a.start);
+		let result = content;
+		let lastStart = Infinity;
+		for (const edit of edits) {
+			// Skip overlapping matches (e.g., a wikilink inside frontmatter)
+			if (edit.end > lastStart) {
+				continue;
+			}
+			result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+			lastStart = edit.start;
+		}
+		return result;
+	}
+
+	/**
+	 * Build a link path to the target in the same style as an existing reference
+	 * (shortest, vault-absolute or relative)
+	 */
+	buildLinkPath(reference: FileReference, target: TFile, sourcePath: string): string {
+		if (reference.kind === ReferenceKind.Wikilink) {
+			return this.app.metadataCache.fileToLinktext(target, sourcePath, false);
+		}
+
+		const oldPath = reference.linkPath;
+		let newPath: string;
+		if (oldPath.startsWith('/')) {
+			newPath = `/${target.path}`;
+		} else if (oldPath.startsWith('./') || oldPath.startsWith('../')) {
+			newPath = getRelativePath(getFolderPath(sourcePath), target.path);
+			if (oldPath.startsWith('./') && !newPath.startsWith('../')) {
+				newPath = `./${newPath}`;
+			}
+		} else if (!oldPath.includes('/')) {
+			newPath = this.app.metadataCache.fileToLinktext(target, sourcePath, false);
+		} else if (resolveRelativePath(getFolderPath(sourcePath), oldPath) === this.resolveReference(oldPath, sourcePath)?.path) {
+			newPath = getRelativePath(getFolderPath(sourcePath), target.path);
+		} else {
+			newPath = target.path;
+		}
+
+		// Keep markdown links valid when the path contains spaces
+		// (unbracketed markdown targets can't contain spaces, so a space means <...> was used)
+		const wasEncoded = /%[0-9a-f]{2}/i.test(oldPath);
+		const bracketed = oldPath.includes(' ');
+		if (wasEncoded || (reference.kind === ReferenceKind.Markdown && newPath.includes(' ') && !bracketed)) {
+			newPath = encodeURI(newPath);
+		}
+		return newPath;
+	}
+
+	/**
+	 * Extract bare file paths from the frontmatter block
+	 */
+	private extractFrontmatterPaths(content: string): FileReference[] {
+		const references: FileReference[] = [];
+		const frontmatterMatch = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+		if (!frontmatterMatch) {
+			return references;
+		}
+
+		const blockStart = content.indexOf('\n') + 1;
+		const lines = (frontmatterMatch[1] ?? '').split('\n');
+		let lineStart = blockStart;
+		for (const line of lines) {
+			// "key: value" or "- value", optionally quoted
+			const match = line.match(/^(\s*(?:[^:\s][^:]*:|-)\s+)(["']?)([^"'\n]+?)\2\s*\r?$/);
+			const value = match?.[3] ?? '';
+			if (match && FRONTMATTER_PATH_PATTERN.test(value) && !value.includes('[[') && !value.includes('](') && !this.isExternal(value)) {
+				const start = lineStart + (match[1] ?? '').length + (match[2] ?? '').length;
+				references.push({ kind: ReferenceKind.Frontmatter, linkPath: value, start, end: start + value.length });
+			}
+			lineStart += line.length + 1;
+		}
+		return references;
+	}
+
+	/**
+	 * Check for URLs that are not vault paths
+	 */
+	private isExternal(path: string): boolean {
+		return /^[a-z][a-z0-9+.-]*:/i.test(path) || path.startsWith('//');
+	}
+}
@@ -0,0 +1,210 @@
+/**
+ * Responsive Image Service
+ * Writes width variants of inserted images and builds srcset snippets for static-site notes
+ */
+
+import { App, normalizePath, TFile } from 'obsidian';
+import { ImageManagerSettings, ResponsiveSnippet } from '../types';
+import { StorageManager } from './StorageManager';
+import { createCanvas, decodeImage, encodeCanvas, getContext2d, supportsAlpha } from '../utils/image-canvas';
+import { isAnimatedImage } from '../utils/image-format';
+import { getFolderPath, getRelativePath } from '../utils/path';
+
+/**
+ * A saved width variant of an image
+ */
+export interface ImageVariant {
+	file: TFile;
+	width: number;
+}
+
+/**
+ * An image with the variants written for it
+ */
+export interface ResponsiveImageSet {
+	original: TFile;
+	width: number;
+	height: number;
+	variants: ImageVariant[]; // Narrowest first
+}
+
+export class ResponsiveImageService {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Check whether variants should be written for an image inserted into a note
+	 */
+	appliesTo(note: TFile, file: TFile): boolean {
+		return this.settings.enableResponsiveImages &&
+			this.settings.responsiveWidths.length > 0 &&
+			this.settings.supportedExtensions.includes(note.extension) &&
+			this.storageManager.isImageFile(file) &&
+			file.extension.toLowerCase() !== 'svg';
+	}
+
+	/**
+	 * Write a downscaled copy of the image for each configured width below its own width
+	 * Returns null if the image cannot be decoded or re-encoded on this platform
+	 */
+	async createVariants(file: TFile, data: ArrayBuffer): Promise<ResponsiveImageSet | null> {
+		if (isAnimatedImage(data, file.extension)) {
+			return null;
+		}
+
+		const mimeType = this.storageManager.getMimeTypeFromExtension(file.extension);
+		let bitmap: ImageBitmap;
+		try {
+			bitmap = await decodeImage(data, mimeType);
+		} catch (error) {
+			console.warn(`[Image Manager] Could not decode ${file.path} for responsive variants:`, error);
+			return null;
+		}
+
+		const set: ResponsiveImageSet = { original: file, width: bitmap.width, height: bitmap.height, variants: [] };
+		const widths = [...new Set(this.settings.responsiveWidths)]
+			.filter((width) => width > 0 && width < bitmap.width)
+			.sort((a, b) => a - b);
+
+		try {
+			for (const width of widths) {
+				const canvas = createCanvas(width, (bitmap.height * width) / bitmap.width);
+				const ctx = getContext2d(canvas);
+				ctx.imageSmoothingQuality = 'high';
+				if (!supportsAlpha(mimeType)) {
+					ctx.fillStyle = '#ffffff';
+					ctx.fillRect(0, 0, canvas.width, canvas.height);
+				}
+				ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+				const encoded = await encodeCanvas(canvas, mimeType, this.settings.optimizeQuality / 100);
+				if (!encoded) {
+					this.log(`Encoding ${file.extension} is not supported on this platform, skipping variants`);
+					break;
+				}
+
+				const name = this.renderName(file.basename, width);
+				const path = this.storageManager.getAvailablePathInFolder(file.parent?.path ?? '', name, file.extension);
+				set.variants.push({ file: await this.storageManager.saveFile(encoded, path), width });
+			}
+		} finally {
+			bitmap.close();
+		}
+
+		this.log(`Wrote ${set.variants.length} responsive variant(s) for ${file.path}`);
+		return set;
+	}
+
+	/**
+	 * Find the image a file is a width variant of, from the variant name pattern
+	 * Returns null if the file isn't named like a variant of an image in its folder
+	 */
+	getVariantOriginal(file: TFile): TFile | null {
+		const pattern = this.getNamePattern();
+		// Same fallback as renderName for a pattern without {{width}}
+		const withWidth = pattern.includes('{{width}}') ? pattern : `${pattern}-{{width}}`;
+		const source = withWidth
+			.split(/(\{\{name\}\}|\{\{width\}\})/)
+			.map((part) => {
+				if (part === '{{name}}') {
+					return '(.+)';
+				}
+				if (part === '{{width}}') {
+					return '\\d+';
+				}
+				return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+			})
+			.join('');
+
+		const name = file.basename.match(new RegExp(`^${source}$`))?.[1];
+		if (!name) {
+			return null;
+		}
+		const folder = file.parent?.path ?? '';
+		const original = this.app.vault.getAbstractFileByPath(normalizePath(`${folder}/${name}.${file.extension}`));
+		return original instanceof TFile && original !== file ? original : null;
+	}
+
+	/**
+	 * Build the snippet inserted for a responsive image, or null to use the usual link
+	 */
+	buildSnippet(set: ResponsiveImageSet, sourcePath: string, alt: string): string | null {
+		const folder = getFolderPath(sourcePath);
+		const toUrl = (file: TFile) => {
+			const relative = getRelativePath(folder, file.path);
+			return encodeURI(relative.startsWith('../') ? relative : `./${relative}`);
+		};
+
+		const src = toUrl(set.original);
+		const srcset = [
+			...set.variants.map((variant) => `${toUrl(variant.file)} ${variant.width}w`),
+			`${src} ${set.width}w`,
+		].join(', ');
+		const sizes = this.settings.responsiveSizes.trim() || '100vw';
+		const escapedAlt = alt.replace(/"/g, '&quot;');
+
+		switch (this.settings.responsiveSnippet) {
+			case ResponsiveSnippet.Picture: {
+				const type = this.storageManager.getMimeTypeFromExtension(set.original.extension);
+				return [
+					'<picture>',
+					`\t<source type="${type}" srcset="${srcset}" sizes="${sizes}" />`,
+					`\t<img src="${src}" alt="${escapedAlt}" width="${set.width}" height="${set.height}" />`,
+					'</picture>',
+				].join('\n');
+			}
+			case ResponsiveSnippet.Component: {
+				const variables: Record<string, string> = {
+					src,
+					srcset,
+					sizes,
+					alt: escapedAlt,
+					width: String(set.width),
+					height: String(set.height),
+				};
+				return this.settings.responsiveComponentTemplate.replace(/\{\{(\w+)\}\}/g, (match, key: string) => {
+					return variables[key] ?? match;
+				});
+			}
+			default:
+				return null;
+		}
+	}
+
+	/**
+	 * Render the variant name pattern
+	 */
+	private renderName(name: string, width: number): string {
+		const pattern = this.getNamePattern();
+		const rendered = pattern.replace(/\{\{name\}\}/g, name).replace(/\{\{width\}\}/g, String(width));
+		// A pattern without {{width}} would give every variant the same name
+		return rendered.includes(String(width)) ? rendered : `${rendered}-${width}`;
+	}
+
+	private getNamePattern(): string {
+		return this.settings.responsiveNamePattern.trim() || '{{name}}-{{width}}w';
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -0,0 +1,163 @@
+/**
+ * Similar Image Service
+ * Finds visually similar images (resized or re-compressed copies) with perceptual hashing
+ * and merges them into a single file
+ */
+
+import { App, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceService } from './ReferenceService';
+import { computeDHash, hammingDistance, PerceptualHash } from '../utils/perceptual-hash';
+import { isAnnotationOriginal } from '../utils/annotations';
+
+/**
+ * A vault image with its perceptual hash
+ */
+export interface HashedImage {
+	file: TFile;
+	hash: string;
+	width: number;
+	height: number;
+}
+
+export class SimilarImageService {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+
+	// Hashes of unchanged files are reused between runs
+	private cache = new Map<string, { mtime: number; size: number; hash: PerceptualHash }>();
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager, referenceService: ReferenceService) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Compute perceptual hashes for all vault images
+	 * Images that cannot be decoded are skipped
+	 */
+	async hashAllImages(onProgress?: (done: number, total: number) => void): Promise<HashedImage[]> {
+		// Originals kept for annotated images always resemble their render and must not be merged
+		const images = this.app.vault.getFiles().filter((file) => {
+			return this.storageManager.isImageFile(file) && !isAnnotationOriginal(file);
+		});
+		const hashed: HashedImage[] = [];
+
+		for (let i = 0; i < images.length; i++) {
+			const file = images[i];
+			if (!file) {
+				continue;
+			}
+			try {
+				const hash = await this.hashFile(file);
+				hashed.push({ file, ...hash });
+			} catch (error) {
+				this.log(`Skipping ${file.path} (could not be decoded)`, error);
+			}
+			onProgress?.(i + 1, images.length);
+		}
+
+		return hashed;
+	}
+
+	/**
+	 * Group images whose hashes differ by at most `threshold` bits
+	 * Each group is sorted with the preferred keeper (largest dimensions, then file size) first
+	 */
+	groupSimilar(images: HashedImage[], threshold: number): HashedImage[][] {
+		// Union-find over all pairs within the threshold
+		const parent = images.map((_, i) => i);
+		const find = (i: number): number => {
+			while (parent[i] !== i) {
+				const next = parent[i] ?? i;
+				parent[i] = parent[next] ?? next;
+				i = next;
+			}
+			return i;
+		};
+
+		for (let i = 0; i < images.length; i++) {
+			for (let j = i + 1; j < images.length; j++) {
+				const a = images[i];
+				const b = images[j];
+				if (a && b && hammingDistance(a.hash, b.hash) <= threshold) {
+					parent[find(j)] = find(i);
+				}
+			}
+		}
+
+		const groups = new Map<number, HashedImage[]>();
+		images.forEach((image, i) => {
+			const root = find(i);
+			const group = groups.get(root) ?? [];
+			group.push(image);
+			groups.set(root, group);
+		});
+
+		return [...groups.values()]
+			.filter((group) => group.length > 1)
+			.map((group) => group.sort((a, b) => {
+				return b.width * b.height - a.width * a.height || b.file.stat.size - a.file.stat.size;
+			}));
+	}
+
+	/**
+	 * Merge duplicates into the keeper: rewrite all note references, then trash the duplicates
+	 * @returns Number of notes modified
+	 */
+	async mergeGroup(keeper: TFile, duplicates: TFile[]): Promise<number> {
+		const replacements = new Map<string, TFile>();
+		for (const duplicate of duplicates) {
+			if (duplicate.path !== keeper.path) {
+				replacements.set(duplicate.path, keeper);
+			}
+		}
+
+		const modified = await this.referenceService.replaceReferences(replacements);
+		for (const path of replacements.keys()) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				await this.app.fileManager.trashFile(file);
+			}
+		}
+
+		this.log(`Merged ${replacements.size} image(s) into ${keeper.path}, updated ${modified} note(s)`);
+		return modified;
+	}
+
+	/**
+	 * Get the perceptual hash of a file, reusing the cached value if unchanged
+	 */
+	private async hashFile(file: TFile): Promise<PerceptualHash> {
+		const cached = this.cache.get(file.path);
+		if (cached && cached.mtime === file.stat.mtime && cached.size === file.stat.size) {
+			return cached.hash;
+		}
+
+		const data = await this.app.vault.readBinary(file);
+		const hash = await computeDHash(data, this.storageManager.getMimeTypeFromExtension(file.extension));
+		this.cache.set(file.path, { mtime: file.stat.mtime, size: file.stat.size, hash });
+		return hash;
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -3,12 +3,19 @@
  * Handles file storage, path resolution, and Obsidian attachment location integration
  */
 
-import { App, TFile, TFolder, normalizePath } from 'obsidian';
-import { ImageManagerSettings, AttachmentLocation } from '../types';
+import { App, TFile, TFolder, getAllTags, normalizePath } from 'obsidian';
+import { DEFAULT_SETTINGS, ImageManagerSettings, AttachmentLocation, AttachmentType, LinkPathStyle, NameTemplateVariables, RoutingMatch, RoutingRule } from '../types';
+import { IMAGE_EXTENSIONS, isEmbeddableExtension, matchesMimeType } from '../utils/file-types';
+import { getFrontmatter } from '../utils/mdx-frontmatter';
+import { buildTemplateVariables, isValidDuplicatePattern, renderDuplicateName, renderFolderTemplate } from '../utils/template';
+import { matchesGlob } from '../utils/glob';
+import { slugifyFileName } from '../utils/slug';
+import { getBaseName, getFolderPath, getRelativePath, resolveRelativePath } from '../utils/path';
 
 export class StorageManager {
 	private app: App;
 	private settings: ImageManagerSettings;
+	private reservedPaths = new Set<string>(); // Lower-cased paths handed out but not saved yet
 
 	constructor(app: App, settings: ImageManagerSettings) {
 		this.app = app;
@@ -24,34 +31,241 @@ export class StorageManager {
 
 	/**
 	 * Get the attachment folder path for a given note
+	 * A folder set in the note's frontmatter wins, then routing rules, the attachment type's folder
+	 * and finally the attachment location
+	 * @param extension - Extension of the file being saved; managed attachment types may have their own folder
 	 */
-	getAttachmentFolder(noteFile: TFile): string {
+	async getAttachmentFolder(noteFile: TFile, extension?: string): Promise<string> {
 		const notePath = noteFile.parent?.path ?? '';
+		const frontmatter = await getFrontmatter(this.app, noteFile) ?? {};
+		const variables = buildTemplateVariables(this.app, noteFile);
 
-		switch (this.settings.attachmentLocation) {
+		const override = this.getFolderOverride(noteFile.path, frontmatter);
+		if (override !== null) {
+			return override;
+		}
+
+		const rule = await this.findRoutingRule(noteFile, extension, frontmatter);
+		if (rule) {
+			return this.resolveLocation(notePath, rule.location, rule.path, variables, frontmatter);
+		}
+
+		const typeFolder = extension ? this.getAttachmentType(extension)?.folder.trim() : '';
+		if (typeFolder) {
+			return typeFolder.startsWith('./')
+				? normalizePath(this.joinPaths(notePath, typeFolder.slice(2)))
+				: normalizePath(typeFolder);
+		}
+
+		return this.resolveLocation(notePath, this.settings.attachmentLocation, this.settings.customAttachmentPath, variables, frontmatter);
+	}
+
+	/**
+	 * Get a moved note's image folder at its old and new path, when that folder follows the note
+	 * Returns null if the folder doesn't depend on where the note is (vault folder, Obsidian's setting,
+	 * a vault path in the note's frontmatter)
+	 * @param oldPath - The note's path before it moved
+	 */
+	async getMovedAttachmentFolders(noteFile: TFile, oldPath: string): Promise<{ from: string; to: string } | null> {
+		const oldFolder = getFolderPath(oldPath);
+		const newFolder = noteFile.parent?.path ?? '';
+		const frontmatter = await getFrontmatter(this.app, noteFile) ?? {};
+
+		const override = this.getFolderOverrideValue(frontmatter);
+		if (override) {
+			if (!this.isRelativeFolder(override)) {
+				return null;
+			}
+			const from = resolveRelativePath(oldFolder, override);
+			const to = resolveRelativePath(newFolder, override);
+			return from === null || to === null ? null : { from, to };
+		}
+
+		const rule = await this.findRoutingRule(noteFile, undefined, frontmatter);
+		const location = rule ? rule.location : this.settings.attachmentLocation;
+		const path = rule ? rule.path : this.settings.customAttachmentPath;
+		if (location !== AttachmentLocation.SameFolder && location !== AttachmentLocation.Subfolder) {
+			return null;
+		}
+
+		// Render {{fileName}} and {{dirName}} as they were before the move
+		const variables = buildTemplateVariables(this.app, noteFile);
+		const oldVariables = {
+			...variables,
+			fileName: getBaseName(oldPath),
+			dirName: oldFolder.substring(oldFolder.lastIndexOf('/') + 1),
+		};
+
+		return {
+			from: this.resolveLocation(oldFolder, location, path, oldVariables, frontmatter),
+			to: this.resolveLocation(newFolder, location, path, variables, frontmatter),
+		};
+	}
+
+	/**
+	 * Get the folder set by the note's attachment folder property, or null if there is none
+	 * "./img" and "../img" are relative to the note; other paths are from the vault root
+	 */
+	private getFolderOverride(notePath: string, frontmatter: Record<string, unknown>): string | null {
+		const folder = this.getFolderOverrideValue(frontmatter);
+		if (!folder) {
+			return null;
+		}
+
+		if (this.isRelativeFolder(folder)) {
+			const resolved = resolveRelativePath(getFolderPath(notePath), folder);
+			if (resolved === null) {
+				console.warn(`[Image Manager] Ignoring ${this.settings.attachmentFolderKey} "${folder}" in ${notePath}: it points outside the vault`);
+				return null;
+			}
+			return resolved;
+		}
+		return normalizePath(folder.replace(/^\/+/, ''));
+	}
+
+	/**
+	 * Get the trimmed value of the attachment folder property, or null if it isn't set
+	 */
+	private getFolderOverrideValue(frontmatter: Record<string, unknown>): string | null {
+		const key = this.settings.attachmentFolderKey.trim();
+		const value = key ? frontmatter[key] : undefined;
+		return typeof value === 'string' && value.trim() ? value.trim() : null;
+	}
+
+	private isRelativeFolder(folder: string): boolean {
+		return folder.startsWith('./') || folder.startsWith('../') || folder === '.';
+	}
+
+	/**
+	 * Resolve an attachment location mode and its path for a note
+	 * @param path - Subfolder or vault folder; template variables are rendered
+	 */
+	private resolveLocation(
+		notePath: string,
+		location: AttachmentLocation,
+		path: string,
+		variables: NameTemplateVariables,
+		frontmatter: Record<string, unknown>
+	): string {
+		switch (location) {
 			case AttachmentLocation.SameFolder:
 				return notePath;
 
 			case AttachmentLocation.Subfolder:
-				return normalizePath(this.joinPaths(notePath, this.settings.customAttachmentPath));
+				return normalizePath(this.joinPaths(notePath, this.renderPath(path, variables, frontmatter)));
 
 			case AttachmentLocation.VaultFolder:
-				return normalizePath(this.settings.customAttachmentPath);
+				return normalizePath(this.renderPath(path, variables, frontmatter));
 
 			case AttachmentLocation.ObsidianDefault:
 			default:
-				return this.getObsidianAttachmentFolder(noteFile);
+				return this.getObsidianAttachmentFolder(notePath);
 		}
 	}
 
+	/**
+	 * Render template variables in a configured folder path
+	 */
+	private renderPath(path: string, variables: NameTemplateVariables, frontmatter: Record<string, unknown>): string {
+		if (!path.includes('{{')) {
+			return path;
+		}
+		return renderFolderTemplate(path, variables, frontmatter);
+	}
+
+	/**
+	 * Find the first enabled routing rule matching a note (and the file being saved)
+	 * @param frontmatter - The note's frontmatter, if already read
+	 */
+	async findRoutingRule(
+		noteFile: TFile,
+		extension?: string,
+		frontmatter?: Record<string, unknown>
+	): Promise<RoutingRule | null> {
+		const rules = this.settings.routingRules.filter((rule) => rule.enabled && rule.pattern.trim());
+		if (rules.length === 0) {
+			return null;
+		}
+
+		frontmatter = frontmatter ?? await getFrontmatter(this.app, noteFile) ?? {};
+		const tags = this.getNoteTags(noteFile, frontmatter);
+		const mimeType = extension ? this.getMimeTypeFromExtension(extension) : '';
+
+		for (const rule of rules) {
+			if (this.matchesRule(rule, noteFile, frontmatter, tags, mimeType)) {
+				this.log(`Routing rule "${rule.name}" matched ${noteFile.path}`);
+				return rule;
+			}
+		}
+		return null;
+	}
+
+	private matchesRule(
+		rule: RoutingRule,
+		noteFile: TFile,
+		frontmatter: Record<string, unknown>,
+		tags: string[],
+		mimeType: string
+	): boolean {
+		const pattern = rule.pattern.trim();
+
+		switch (rule.match) {
+			case RoutingMatch.PathGlob:
+				return matchesGlob(noteFile.path, pattern);
+
+			case RoutingMatch.Tag: {
+				// "#project" also matches nested tags such as "#project/alpha"
+				const tag = pattern.replace(/^#/, '').toLowerCase();
+				return tags.some((noteTag) => noteTag === tag || noteTag.startsWith(`${tag}/`));
+			}
+
+			case RoutingMatch.Frontmatter: {
+				const separator = pattern.indexOf(':');
+				const key = (separator === -1 ? pattern : pattern.slice(0, separator)).trim();
+				const expected = separator === -1 ? null : pattern.slice(separator + 1).trim().toLowerCase();
+				const value = frontmatter[key];
+				if (value === undefined || value === null || value === '') {
+					return false;
+				}
+				if (expected === null) {
+					return true;
+				}
+				const values = Array.isArray(value) ? value : [value];
+				return values.some((item) => String(item).toLowerCase() === expected);
+			}
+
+			case RoutingMatch.MimeType:
+				return mimeType !== '' && matchesMimeType(mimeType, pattern);
+
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Get a note's tags, lowercase and without "#" (MDX tags come from the frontmatter only)
+	 */
+	private getNoteTags(noteFile: TFile, frontmatter: Record<string, unknown>): string[] {
+		const cache = this.app.metadataCache.getFileCache(noteFile);
+		const tags = cache ? getAllTags(cache) ?? [] : [];
+
+		const frontmatterTags = frontmatter.tags ?? frontmatter.tag;
+		if (typeof frontmatterTags === 'string') {
+			tags.push(...frontmatterTags.split(/[,\s]+/));
+		} else if (Array.isArray(frontmatterTags)) {
+			tags.push(...frontmatterTags.map((tag) => String(tag)));
+		}
+
+		return [...new Set(tags.map((tag) => tag.replace(/^#/, '').toLowerCase()).filter((tag) => tag))];
+	}
+
 	/**
 	 * Get Obsidian's configured attachment folder
 	 */
-	private getObsidianAttachmentFolder(noteFile: TFile): string {
+	private getObsidianAttachmentFolder(notePath: string): string {
 		// Access Obsidian's internal config for attachment folder (not in public API types but accessible at runtime)
 		const vaultConfig = (this.app.vault as unknown as { config?: { attachmentFolderPath?: string } }).config;
 		const attachmentFolderPath: string = vaultConfig?.attachmentFolderPath ?? '/';
-		const notePath = noteFile.parent?.path ?? '';
 
 		if (attachmentFolderPath === '/') {
 			// Vault root
@@ -94,23 +308,63 @@ export class StorageManager {
 
 	/**
 	 * Generate a unique file path for an image
+	 * The path stays reserved until saveFile writes it, so concurrent pastes never get the same name
+	 * Callers that don't go through saveFile must call releasePath once done with the path
+	 * @param baseName - A newly generated name; the file name policy is applied to it
+	 * @param renaming - File being renamed to the path; its current path doesn't count as taken
 	 */
-	async getAvailablePath(baseName: string, extension: string, noteFile: TFile): Promise<string> {
-		const folder = this.getAttachmentFolder(noteFile);
+	async getAvailablePath(baseName: string, extension: string, noteFile: TFile, renaming?: TFile): Promise<string> {
+		const folder = await this.getAttachmentFolder(noteFile, extension);
 		await this.ensureFolderExists(folder);
+		const filePath = this.getAvailablePathInFolder(folder, this.sanitizeFileName(baseName), extension, undefined, renaming?.path);
+		this.reservedPaths.add(filePath.toLowerCase());
+		return filePath;
+	}
+
+	/**
+	 * Generate a unique file path in an existing folder, numbering duplicates with the duplicate name pattern
+	 * Names are compared ignoring case: macOS and Windows (and sync between them) treat "Image.png"
+	 * and "image.png" as the same file
+	 * The name is kept as given apart from characters no file system allows, so existing files keep
+	 * their names when moved or copied; apply sanitizeFileName first for newly generated names
+	 * @param reserved - Lower-cased paths already claimed by pending renames
+	 * @param ownPath - Current path of the file being renamed, which doesn't count as taken (so a
+	 * rename that only changes case isn't numbered)
+	 */
+	getAvailablePathInFolder(
+		folder: string,
+		baseName: string,
+		extension: string,
+		reserved?: Set<string>,
+		ownPath?: string
+	): string {
+		const sanitizedName = this.cleanFileName(baseName);
+		const pattern = isValidDuplicatePattern(this.settings.dupNamePattern)
+			? this.settings.dupNamePattern
+			: DEFAULT_SETTINGS.dupNamePattern;
+
+		const taken = new Set<string>();
+		const parent = folder ? this.app.vault.getAbstractFileByPath(normalizePath(folder)) : this.app.vault.getRoot();
+		if (parent instanceof TFolder) {
+			for (const child of parent.children) {
+				taken.add(child.path.toLowerCase());
+			}
+		}
+		if (ownPath) {
+			taken.delete(ownPath.toLowerCase());
+		}
+		const isTaken = (path: string): boolean => {
+			const key = path.toLowerCase();
+			return taken.has(key) || this.reservedPaths.has(key) || (reserved?.has(key) ?? false);
+		};
 
-		const sanitizedName = this.sanitizeFileName(baseName);
 		let fileName = `${sanitizedName}.${extension}`;
 		let filePath = folder ? normalizePath(this.joinPaths(folder, fileName)) : normalizePath(fileName);
 
 		// Check for duplicates
 		let counter = 1;
-		while (this.app.vault.getAbstractFileByPath(filePath)) {
-			if (this.settings.dupNumberAtStart) {
-				fileName = `${counter}${this.settings.dupNumberDelimiter}${sanitizedName}.${extension}`;
-			} else {
-				fileName = `${sanitizedName}${this.settings.dupNumberDelimiter}${counter}.${extension}`;
-			}
+		while (isTaken(filePath)) {
+			fileName = `${renderDuplicateName(pattern, sanitizedName, counter)}.${extension}`;
 			filePath = folder ? normalizePath(this.joinPaths(folder, fileName)) : normalizePath(fileName);
 			counter++;
 		}
@@ -131,23 +385,39 @@ export class StorageManager {
 			await this.ensureFolderExists(parentPath);
 		}
 
-		return await this.app.vault.createBinary(normalizedPath, data);
+		try {
+			return await this.app.vault.createBinary(normalizedPath, data);
+		} finally {
+			this.releasePath(normalizedPath);
+		}
+	}
+
+	/**
+	 * Release a path handed out by getAvailablePath
+	 */
+	releasePath(filePath: string): void {
+		this.reservedPaths.delete(normalizePath(filePath).toLowerCase());
 	}
 
 	/**
 	 * Generate markdown image link for a file
-	 * Ensures the link includes '!' for images
+	 * Ensures the link includes '!' for images and other embeddable files (PDF, audio, video)
 	 * @param displayText Optional display text to add after the link (e.g., ![[image.jpg|display text]])
-	 * @param insertSize Optional size to add (e.g., "200" or "200x100")
+	 * @param insertSize Optional size to add (e.g., "200" or "200x100"); only applies to images
 	 */
 	generateMarkdownLink(file: TFile, sourcePath: string, displayText?: string, insertSize?: string): string {
-		const link = this.app.fileManager.generateMarkdownLink(file, sourcePath);
+		const link = this.settings.linkPathStyle === LinkPathStyle.ObsidianDefault
+			? this.app.fileManager.generateMarkdownLink(file, sourcePath)
+			: this.buildLink(file, sourcePath);
 		// Obsidian's generateMarkdownLink should include '!' for images, but ensure it does
 		let imageLink = link;
-		if (this.isImageFile(file) && !link.startsWith('!')) {
-			// If it's an image but doesn't start with '!', add it
+		if (isEmbeddableExtension(file.extension) && !link.startsWith('!')) {
+			// If it's embeddable but doesn't start with '!', add it
 			imageLink = `!${link}`;
 		}
+		if (!this.isImageFile(file)) {
+			insertSize = undefined;
+		}
 		
 		// Debug logging
 		if (this.settings.debugMode) {
@@ -163,28 +433,29 @@ export class StorageManager {
 		// Handle size and display text
 		// For wikilinks: ![[path]] -> ![[path|size]] or ![[path|size|displayText]]
 		// For markdown: ![alt](path) -> ![alt|size](path) or ![displayText|size](path)
-		if (imageLink.startsWith('![') && imageLink.includes('](')) {
+		const embed = imageLink.startsWith('!') ? '!' : '';
+		if (/^!?\[(?!\[)/.test(imageLink) && imageLink.includes('](')) {
 			// Markdown link: ![alt](path)
 			if (insertSize && insertSize.trim()) {
 				// Add size: ![alt|size](path)
 				const sizePart = `|${insertSize}`;
 				if (displayText && displayText.trim()) {
 					// Both size and display text: ![displayText|size](path)
-					imageLink = imageLink.replace(/^!\[([^\]]*)\]/, `![${displayText}${sizePart}]`);
+					imageLink = imageLink.replace(/^!?\[([^\]]*)\]/, `${embed}[${displayText}${sizePart}]`);
 				} else {
 					// Just size: ![alt|size](path)
 					// Handle empty alt text case: ![] -> ![|size]
-					const altMatch = imageLink.match(/^!\[([^\]]*)\]/);
+					const altMatch = imageLink.match(/^!?\[([^\]]*)\]/);
 					if (altMatch) {
 						const alt = altMatch[1] || '';
-						imageLink = imageLink.replace(/^!\[([^\]]*)\]/, `![${alt}${sizePart}]`);
+						imageLink = imageLink.replace(/^!?\[([^\]]*)\]/, `${embed}[${alt}${sizePart}]`);
 					}
 				}
 			} else if (displayText && displayText.trim()) {
 				// Just display text: ![displayText](path)
-				imageLink = imageLink.replace(/^!\[([^\]]*)\]/, `![${displayText}]`);
+				imageLink = imageLink.replace(/^!?\[([^\]]*)\]/, `${embed}[${displayText}]`);
 			}
-		} else if (imageLink.startsWith('![') && imageLink.includes(']]')) {
+		} else if (/^!?\[\[/.test(imageLink) && imageLink.includes(']]')) {
 			// Wikilink: ![[path]]
 			const parts: string[] = [];
 			if (insertSize && insertSize.trim()) {
@@ -210,35 +481,64 @@ export class StorageManager {
 	}
 
 	/**
-	 * Get relative path from source file to target file
+	 * Build a link in Obsidian's link syntax (wikilink or markdown) with the configured path style
 	 */
-	getRelativePath(from: TFile, to: TFile): string {
-		const fromDir = from.parent?.path ?? '';
-		const toPath = to.path;
-
-		if (!fromDir) {
-			return toPath;
+	private buildLink(file: TFile, sourcePath: string): string {
+		// Access Obsidian's internal config (not in public API types but accessible at runtime)
+		const vaultConfig = (this.app.vault as unknown as { config?: { useMarkdownLinks?: boolean } }).config;
+		if (!vaultConfig?.useMarkdownLinks) {
+			return `[[${this.getLinkPath(file, sourcePath, true)}]]`;
 		}
+		return `[](${this.encodeLinkPath(this.getLinkPath(file, sourcePath))})`;
+	}
+
+	/**
+	 * Get the path to write in a link from a note to a file, in the configured path style
+	 * Obsidian's setting can't be read for a bare path, so it gives a relative path here
+	 * @param wikilink - Vault-absolute wikilinks are written without the leading "/"
+	 */
+	getLinkPath(file: TFile, sourcePath: string, wikilink = false): string {
+		switch (this.settings.linkPathStyle) {
+			case LinkPathStyle.Absolute:
+				return wikilink ? file.path : `/${file.path}`;
+
+			case LinkPathStyle.Shortest:
+				return this.app.metadataCache.fileToLinktext(file, sourcePath, false);
 
-		// Simple relative path calculation
-		// For same directory, just return file name
-		const toDir = to.parent?.path ?? '';
-		if (fromDir === toDir) {
-			return to.name;
+			case LinkPathStyle.Relative:
+			case LinkPathStyle.ObsidianDefault:
+			default:
+				return getRelativePath(getFolderPath(sourcePath), file.path);
 		}
+	}
+
+	/**
+	 * Encode a path for a markdown link target (spaces and parentheses would end the link)
+	 */
+	encodeLinkPath(path: string): string {
+		return encodeURI(path).replace(/\(/g, '%28').replace(/\)/g, '%29');
+	}
 
-		// Otherwise return the full path
-		return toPath;
+	/**
+	 * Get the relative path from a note to a file, e.g. "image.png" or "../../assets/image.png"
+	 */
+	getRelativePath(from: TFile, to: TFile): string {
+		return getRelativePath(from.parent?.path ?? '', to.path);
 	}
 
 	/**
-	 * Sanitize a file name
+	 * Sanitize a file name following the file name policy
 	 */
 	sanitizeFileName(name: string): string {
-		// Remove or replace invalid characters
+		return slugifyFileName(name, this.settings);
+	}
+
+	/**
+	 * Replace only the characters no file system allows, leaving the rest of the name as is
+	 */
+	private cleanFileName(name: string): string {
 		return name
 			.replace(/[\\/:*?"<>|]/g, '-')  // Replace Windows invalid chars
-			.replace(/\s+/g, ' ')            // Normalize whitespace
 			.replace(/^\.+/, '')             // Remove leading dots
 			.replace(/\.+$/, '')             // Remove trailing dots
 			.trim();
@@ -258,17 +558,113 @@ export class StorageManager {
 			'image/bmp': 'bmp',
 			'image/tiff': 'tiff',
 			'image/avif': 'avif',
+			'application/pdf': 'pdf',
+			'audio/mpeg': 'mp3',
+			'audio/mp3': 'mp3',
+			'audio/wav': 'wav',
+			'audio/x-wav': 'wav',
+			'audio/mp4': 'm4a',
+			'audio/x-m4a': 'm4a',
+			'audio/aac': 'aac',
+			'audio/ogg': 'ogg',
+			'audio/flac': 'flac',
+			'video/mp4': 'mp4',
+			'video/webm': 'webm',
+			'video/quicktime': 'mov',
+			'video/x-matroska': 'mkv',
+			'video/ogg': 'ogv',
+			'application/zip': 'zip',
+			'application/x-zip-compressed': 'zip',
+			'application/x-7z-compressed': '7z',
+			'application/vnd.rar': 'rar',
+			'application/x-rar-compressed': 'rar',
+			'application/gzip': 'gz',
+			'application/x-tar': 'tar',
 		};
 
-		return mimeToExt[mimeType] ?? 'png';
+		const type = mimeType.toLowerCase().split(';')[0]?.trim() ?? '';
+		return mimeToExt[type] ?? 'png';
+	}
+
+	/**
+	 * Get MIME type from file extension
+	 */
+	getMimeTypeFromExtension(extension: string): string {
+		const extToMime: Record<string, string> = {
+			'jpg': 'image/jpeg',
+			'jpeg': 'image/jpeg',
+			'png': 'image/png',
+			'gif': 'image/gif',
+			'webp': 'image/webp',
+			'svg': 'image/svg+xml',
+			'bmp': 'image/bmp',
+			'tiff': 'image/tiff',
+			'avif': 'image/avif',
+			'pdf': 'application/pdf',
+			'mp3': 'audio/mpeg',
+			'wav': 'audio/wav',
+			'm4a': 'audio/mp4',
+			'aac': 'audio/aac',
+			'ogg': 'audio/ogg',
+			'flac': 'audio/flac',
+			'mp4': 'video/mp4',
+			'webm': 'video/webm',
+			'mov': 'video/quicktime',
+			'mkv': 'video/x-matroska',
+			'ogv': 'video/ogg',
+			'zip': 'application/zip',
+			'7z': 'application/x-7z-compressed',
+			'rar': 'application/vnd.rar',
+			'gz': 'application/gzip',
+			'tar': 'application/x-tar',
+		};
+
+		return extToMime[extension.toLowerCase()] ?? 'application/octet-stream';
 	}
 
 	/**
 	 * Check if a file is an image based on extension
 	 */
 	isImageFile(file: TFile): boolean {
-		const imageExtensions = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'tiff', 'avif'];
-		return imageExtensions.includes(file.extension.toLowerCase());
+		return this.isImageExtension(file.extension);
+	}
+
+	/**
+	 * Check if an extension is an image format
+	 */
+	isImageExtension(extension: string): boolean {
+		return IMAGE_EXTENSIONS.includes(extension.toLowerCase());
+	}
+
+	/**
+	 * Get the enabled attachment type that manages an extension
+	 * Matches the type's extensions first, then its MIME types (e.g., "audio/*" for .opus)
+	 */
+	getAttachmentType(extension: string): AttachmentType | null {
+		const ext = extension.toLowerCase();
+		const types = this.settings.attachmentTypes.filter((type) => type.enabled);
+		const mimeType = this.getMimeTypeFromExtension(ext);
+		return types.find((type) => type.extensions.includes(ext)) ??
+			types.find((type) => type.mimeTypes.some((pattern) => matchesMimeType(mimeType, pattern))) ??
+			null;
+	}
+
+	/**
+	 * Check if a pasted or dropped file should go through the rename/location pipeline:
+	 * any image, or a file matching an enabled attachment type by MIME type or extension
+	 */
+	isManagedFile(file: File): boolean {
+		if (file.type.startsWith('image/')) {
+			return true;
+		}
+
+		const extension = file.name.includes('.') ? file.name.split('.').pop() ?? '' : '';
+		return this.settings.attachmentTypes.some((type) => {
+			return type.enabled && (
+				type.mimeTypes.some((pattern) => matchesMimeType(file.type, pattern)) ||
+				type.extensions.includes(extension.toLowerCase())
+			);
+		});
 	}
 
 	/**
@@ -304,4 +700,13 @@ export class StorageManager {
 			return false;
 		}
 	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
 }
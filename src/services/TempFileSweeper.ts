@@ -0,0 +1,93 @@
+/**
+ * Temp File Sweeper Service
+ * Finds "temp-<timestamp>" files left behind by interrupted inserts in earlier sessions and offers to trash them
+ */
+
+import { App, Notice, TFile } from 'obsidian';
+import { ImageManagerSettings } from '../types';
+import { StorageManager } from './StorageManager';
+import { ReferenceService } from './ReferenceService';
+import { openConfirmModal } from '../modals/ConfirmModal';
+
+// temp-<ms timestamp>, possibly with a duplicate number before or after
+const TEMP_NAME_PATTERN = /^(?:\d+\D+)?temp-(\d{12,})(?:\D+\d+)?$/;
+
+export class TempFileSweeper {
+	private app: App;
+	private settings: ImageManagerSettings;
+	private storageManager: StorageManager;
+	private referenceService: ReferenceService;
+
+	// Files created after this belong to the current session
+	private sessionStart = Date.now();
+
+	constructor(app: App, settings: ImageManagerSettings, storageManager: StorageManager, referenceService: ReferenceService) {
+		this.app = app;
+		this.settings = settings;
+		this.storageManager = storageManager;
+		this.referenceService = referenceService;
+	}
+
+	/**
+	 * Update settings reference
+	 */
+	updateSettings(settings: ImageManagerSettings): void {
+		this.settings = settings;
+	}
+
+	/**
+	 * Find temp files from earlier sessions that no note references
+	 */
+	async findStaleTempFiles(): Promise<TFile[]> {
+		const candidates = this.app.vault.getFiles().filter((file) => {
+			const timestamp = Number(file.basename.match(TEMP_NAME_PATTERN)?.[1]);
+			return timestamp > 0 &&
+				timestamp < this.sessionStart &&
+				(this.storageManager.isImageFile(file) || this.storageManager.getAttachmentType(file.extension) !== null);
+		});
+		if (candidates.length === 0) {
+			return [];
+		}
+
+		const referenceIndex = await this.referenceService.buildReferenceIndex();
+		return candidates.filter((file) => !referenceIndex.has(file.path));
+	}
+
+	/**
+	 * Ask whether to trash stale temp files, if there are any
+	 */
+	async sweep(): Promise<void> {
+		const files = await this.findStaleTempFiles();
+		if (files.length === 0) {
+			return;
+		}
+
+		const preview = files.slice(0, 10).map((file) => `• ${file.path}`).join('\n');
+		const more = files.length > 10 ? `\n…and ${files.length - 10} more` : '';
+		const result = await openConfirmModal(
+			this.app,
+			'Leftover Temporary Files',
+			`Found ${files.length} temporary file(s) left behind by interrupted image inserts. No note links to them.\n\n${preview}${more}\n\nMove them to trash?`,
+			'Move to trash',
+			'Keep'
+		);
+		if (!result.confirmed) {
+			return;
+		}
+
+		for (const file of files) {
+			await this.app.fileManager.trashFile(file);
+		}
+		this.log(`Trashed ${files.length} stale temp file(s)`);
+		new Notice(`Moved ${files.length} temporary file(s) to trash`);
+	}
+
+	/**
+	 * Debug logging
+	 */
+	private log(...args: unknown[]): void {
+		if (this.settings.debugMode) {
+			console.debug('[Image Manager]', ...args);
+		}
+	}
+}
@@ -5,6 +5,7 @@
 
 import { App, BaseComponent, Platform, PluginSettingTab, requireApiVersion } from 'obsidian';
 import { createSettingsGroup } from './utils/settings-compat';
+import { isValidDuplicatePattern } from './utils/template';
 import {
 	ImageManagerSettings,
 	DEFAULT_SETTINGS,
@@ -13,6 +14,16 @@ import {
 	ImageSize,
 	PropertyLinkFormat,
 	AttachmentLocation,
+	LinkPathStyle,
+	AttachmentType,
+	OptimizeFormat,
+	ResizeOverride,
+	ResponsiveSnippet,
+	RoutingMatch,
+	RoutingRule,
+	MetadataField,
+	DuplicateImageBehavior,
+	FileNameStyle,
 	DeviceType,
 	DEFAULT_BANNER_DEVICE_SETTINGS,
 } from './types';
@@ -47,6 +58,12 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 		// General Settings
 		this.renderGeneralSettings(containerEl);
 
+		// Attachment Types
+		this.renderAttachmentTypeSettings(containerEl);
+
+		// Attachment Routing
+		this.renderRoutingSettings(containerEl);
+
 		// Image Services
 		this.renderImageServicesSettings(containerEl);
 
@@ -59,6 +76,18 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 		// Rename Options
 		this.renderRenameSettings(containerEl);
 
+		// Image Optimization
+		this.renderOptimizationSettings(containerEl);
+
+		// Image Resizing
+		this.renderResizeSettings(containerEl);
+
+		// Responsive Images
+		this.renderResponsiveSettings(containerEl);
+
+		// Privacy
+		this.renderPrivacySettings(containerEl);
+
 		// Banner Images
 		this.renderBannerSettings(containerEl);
 
@@ -124,7 +153,7 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 			group.addSetting((setting) => {
 				setting
 					.setName('Custom attachment path')
-					.setDesc('Path for attachments. Use "./" for relative to note, or "/" for vault root.')
+					.setDesc('Path for attachments. Use "./" for relative to note, or "/" for vault root. Variables: {{fileName}}, {{dirName}}, {{DATE:YYYY/MM}}, {{fm:key}}')
 					.addText((text) => {
 						text
 							.setPlaceholder('./assets')
@@ -136,6 +165,424 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 					});
 			});
 		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Link path style')
+				.setDesc('How paths are written in inserted links and image properties. Relative paths work on static sites; shortest paths only resolve in Obsidian.')
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption(LinkPathStyle.ObsidianDefault, "Use Obsidian's settings")
+						.addOption(LinkPathStyle.Relative, 'Relative (../assets/image.jpg)')
+						.addOption(LinkPathStyle.Absolute, 'Absolute in vault (/assets/image.jpg)')
+						.addOption(LinkPathStyle.Shortest, 'Shortest unique (image.jpg)')
+						.setValue(this.plugin.settings.linkPathStyle)
+						.onChange(async (value) => {
+							this.plugin.settings.linkPathStyle = value as LinkPathStyle;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Attachment folder property')
+				.setDesc('Property that sets the attachment folder for a single note, e.g., "./img" relative to the note or "tutorials/assets" from the vault root. Leave empty to turn off.')
+				.addText((text) => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.attachmentFolderKey)
+						.setValue(this.plugin.settings.attachmentFolderKey)
+						.onChange(async (value) => {
+							this.plugin.settings.attachmentFolderKey = value.trim();
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Move attachments with notes')
+				.setDesc('When a note is moved or renamed, move the images only it uses to its new attachment folder and update the links. Applies when the attachment folder is relative to the note; images other notes use stay in place.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.moveAttachmentsWithNote)
+						.onChange(async (value) => {
+							this.plugin.settings.moveAttachmentsWithNote = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Rename images with notes')
+				.setDesc('When a note is renamed, preview and apply new names for the images only it uses, re-rendered from the image name template. Also available as a command.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.renameImagesWithNote)
+						.onChange(async (value) => {
+							this.plugin.settings.renameImagesWithNote = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+	}
+
+	private renderAttachmentTypeSettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Attachment types', 'image-manager');
+
+		this.plugin.settings.attachmentTypes.forEach((type, index) => {
+			group.addSetting((setting) => {
+				setting
+					.setName(type.name || 'Unnamed type')
+					.setDesc(`Rename and place pasted or dropped ${type.extensions.join(', ') || 'files'} like images`)
+					.addToggle((toggle) => {
+						toggle
+							.setValue(type.enabled)
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, { enabled: value });
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					})
+					.addExtraButton((button) => {
+						button
+							.setIcon('trash')
+							.setTooltip('Remove type')
+							.onClick(async () => {
+								this.plugin.settings.attachmentTypes = this.plugin.settings.attachmentTypes.filter((_, i) => i !== index);
+								await this.plugin.saveSettings();
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					});
+			});
+
+			if (!type.enabled) {
+				return;
+			}
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Name')
+					.addText((text) => {
+						text
+							.setValue(type.name)
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, { name: value.trim() });
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Extensions')
+					.setDesc('Comma-separated, without the dot')
+					.addText((text) => {
+						text
+							.setValue(type.extensions.join(', '))
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, {
+									extensions: this.parseList(value).map((ext) => ext.replace(/^\./, '').toLowerCase()),
+								});
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Media types')
+					.setDesc('Comma-separated, e.g., "application/pdf". Use "audio/*" to match a whole family.')
+					.addText((text) => {
+						text
+							.setValue(type.mimeTypes.join(', '))
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, { mimeTypes: this.parseList(value) });
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Name template')
+					.setDesc('Template for these files. Leave empty to use the image name template.')
+					.addText((text) => {
+						text
+							.setPlaceholder(this.plugin.settings.imageNameTemplate || '{{fileName}}')
+							.setValue(type.nameTemplate)
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, { nameTemplate: value });
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Folder')
+					.setDesc('Where to save these files. Use "./" for relative to note. Leave empty to use the attachment location.')
+					.addText((text) => {
+						text
+							.setPlaceholder('./attachments')
+							.setValue(type.folder)
+							.onChange(async (value) => {
+								await this.updateAttachmentType(index, { folder: value.trim() });
+							});
+					});
+			});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Add attachment type')
+				.setDesc('Manage another kind of file, such as documents or spreadsheets')
+				.addButton((button) => {
+					button
+						.setButtonText('Add')
+						.onClick(async () => {
+							this.plugin.settings.attachmentTypes = [
+								...this.plugin.settings.attachmentTypes,
+								{ name: 'New type', enabled: true, extensions: [], mimeTypes: [], nameTemplate: '', folder: '' },
+							];
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+	}
+
+	private renderRoutingSettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Attachment routing', 'image-manager');
+		const rules = this.plugin.settings.routingRules;
+
+		// Which rule applies to the note that was active when settings were opened
+		group.addSetting((setting) => {
+			const activeFile = this.app.workspace.getActiveFile();
+			setting.setName('Current note');
+			if (!activeFile || !this.plugin.settings.supportedExtensions.includes(activeFile.extension)) {
+				setting.setDesc('Open a note to see which rule applies to it');
+				return;
+			}
+
+			setting.setDesc(`${activeFile.path}: checking…`);
+			void this.plugin.getAttachmentRouting(activeFile).then(({ rule, folder }) => {
+				const target = folder || 'vault root';
+				setting.setDesc(rule
+					? `${activeFile.path}: rule "${rule.name || 'Unnamed rule'}" matches, images go to ${target}`
+					: `${activeFile.path}: no rule matches, images go to ${target}`);
+			});
+		});
+
+		rules.forEach((rule, index) => {
+			group.addSetting((setting) => {
+				setting
+					.setName(rule.name || 'Unnamed rule')
+					.setDesc(`Rule ${index + 1}: ${this.describeRoutingMatch(rule)}`)
+					.addToggle((toggle) => {
+						toggle
+							.setValue(rule.enabled)
+							.onChange(async (value) => {
+								await this.updateRoutingRule(index, { enabled: value });
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					})
+					.addExtraButton((button) => {
+						button
+							.setIcon('arrow-up')
+							.setTooltip('Move up')
+							.setDisabled(index === 0)
+							.onClick(async () => {
+								await this.moveRoutingRule(index, index - 1);
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					})
+					.addExtraButton((button) => {
+						button
+							.setIcon('arrow-down')
+							.setTooltip('Move down')
+							.setDisabled(index === rules.length - 1)
+							.onClick(async () => {
+								await this.moveRoutingRule(index, index + 1);
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					})
+					.addExtraButton((button) => {
+						button
+							.setIcon('trash')
+							.setTooltip('Remove rule')
+							.onClick(async () => {
+								this.plugin.settings.routingRules = this.plugin.settings.routingRules.filter((_, i) => i !== index);
+								await this.plugin.saveSettings();
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					});
+			});
+
+			if (!rule.enabled) {
+				return;
+			}
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Name')
+					.addText((text) => {
+						text
+							.setValue(rule.name)
+							.onChange(async (value) => {
+								await this.updateRoutingRule(index, { name: value.trim() });
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Match')
+					.setDesc(this.getRoutingPatternHelp(rule.match))
+					.addDropdown((dropdown) => {
+						dropdown
+							.addOption(RoutingMatch.PathGlob, 'Note path')
+							.addOption(RoutingMatch.Tag, 'Tag')
+							.addOption(RoutingMatch.Frontmatter, 'Property')
+							.addOption(RoutingMatch.MimeType, 'Media type')
+							.setValue(rule.match)
+							.onChange(async (value) => {
+								await this.updateRoutingRule(index, { match: value as RoutingMatch });
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					})
+					.addText((text) => {
+						text
+							.setValue(rule.pattern)
+							.onChange(async (value) => {
+								await this.updateRoutingRule(index, { pattern: value });
+							});
+					});
+			});
+
+			group.addSetting((setting) => {
+				setting
+					.setName('Location')
+					.addDropdown((dropdown) => {
+						dropdown
+							.addOption(AttachmentLocation.ObsidianDefault, "Use Obsidian's settings")
+							.addOption(AttachmentLocation.SameFolder, 'Same folder as note')
+							.addOption(AttachmentLocation.Subfolder, 'Subfolder of the note')
+							.addOption(AttachmentLocation.VaultFolder, 'Vault folder')
+							.setValue(rule.location)
+							.onChange(async (value) => {
+								await this.updateRoutingRule(index, { location: value as AttachmentLocation });
+								this.refreshWithScrollPreserve(containerEl);
+							});
+					});
+			});
+
+			if (rule.location === AttachmentLocation.Subfolder || rule.location === AttachmentLocation.VaultFolder) {
+				group.addSetting((setting) => {
+					setting
+						.setName('Path')
+						.setDesc('Supports the name template variables, e.g., {{fileName}}')
+						.addText((text) => {
+							text
+								.setPlaceholder(rule.location === AttachmentLocation.Subfolder ? './assets' : 'attachments')
+								.setValue(rule.path)
+								.onChange(async (value) => {
+									await this.updateRoutingRule(index, { path: value.trim() });
+								});
+						});
+				});
+			}
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Add rule')
+				.setDesc('Rules are checked from top to bottom; the first match decides where attachments go')
+				.addButton((button) => {
+					button
+						.setButtonText('Add')
+						.onClick(async () => {
+							this.plugin.settings.routingRules = [
+								...this.plugin.settings.routingRules,
+								{
+									name: 'New rule',
+									enabled: true,
+									match: RoutingMatch.PathGlob,
+									pattern: '',
+									location: AttachmentLocation.VaultFolder,
+									path: '',
+								},
+							];
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+	}
+
+	private describeRoutingMatch(rule: RoutingRule): string {
+		const pattern = rule.pattern.trim() || '(empty)';
+		switch (rule.match) {
+			case RoutingMatch.PathGlob:
+				return `notes at ${pattern}`;
+			case RoutingMatch.Tag:
+				return `notes tagged ${pattern.startsWith('#') ? pattern : `#${pattern}`}`;
+			case RoutingMatch.Frontmatter:
+				return `notes with property ${pattern}`;
+			case RoutingMatch.MimeType:
+				return `files of type ${pattern}`;
+			default:
+				return pattern;
+		}
+	}
+
+	private getRoutingPatternHelp(match: RoutingMatch): string {
+		switch (match) {
+			case RoutingMatch.PathGlob:
+				return 'Glob for the note path, e.g., "blog/**" or "meetings/*.md"';
+			case RoutingMatch.Tag:
+				return 'Tag, e.g., "#meeting" (nested tags match too)';
+			case RoutingMatch.Frontmatter:
+				return 'Property as "key: value", or just "key" to match any value';
+			case RoutingMatch.MimeType:
+				return 'Media type of the file, e.g., "image/png" or "image/*"';
+			default:
+				return '';
+		}
+	}
+
+	/**
+	 * Replace a routing rule with an updated copy
+	 */
+	private async updateRoutingRule(index: number, changes: Partial<RoutingRule>): Promise<void> {
+		this.plugin.settings.routingRules = this.plugin.settings.routingRules.map((rule, i) => {
+			return i === index ? { ...rule, ...changes } : rule;
+		});
+		await this.plugin.saveSettings();
+	}
+
+	private async moveRoutingRule(from: number, to: number): Promise<void> {
+		const rules = [...this.plugin.settings.routingRules];
+		const [rule] = rules.splice(from, 1);
+		if (!rule) {
+			return;
+		}
+		rules.splice(to, 0, rule);
+		this.plugin.settings.routingRules = rules;
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Replace an attachment type with an updated copy (defaults are shared objects, so never mutate in place)
+	 */
+	private async updateAttachmentType(index: number, changes: Partial<AttachmentType>): Promise<void> {
+		this.plugin.settings.attachmentTypes = this.plugin.settings.attachmentTypes.map((type, i) => {
+			return i === index ? { ...type, ...changes } : type;
+		});
+		await this.plugin.saveSettings();
+	}
+
+	/**
+	 * Split a comma-separated list, dropping empty entries
+	 */
+	private parseList(value: string): string[] {
+		return value.split(',').map((item) => item.trim()).filter((item) => item);
 	}
 
 	private renderImageServicesSettings(containerEl: HTMLElement): void {
@@ -354,8 +801,8 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 				.addDropdown((dropdown) => {
 					dropdown
 						.addOption(PropertyLinkFormat.ObsidianDefault, "Use Obsidian's settings")
-						.addOption(PropertyLinkFormat.Path, 'Plain path (path/to/image.jpg)')
-						.addOption(PropertyLinkFormat.RelativePath, 'Relative path (./image.jpg)')
+						.addOption(PropertyLinkFormat.Path, 'Plain path (in the link path style)')
+						.addOption(PropertyLinkFormat.RelativePath, 'Relative path (./image.jpg, ../assets/image.jpg)')
 						.addOption(PropertyLinkFormat.Wikilink, 'Wikilink ([[path/to/image.jpg]])')
 						.addOption(PropertyLinkFormat.Markdown, 'Markdown (![](path/to/image.jpg))')
 						.addOption(PropertyLinkFormat.Custom, 'Custom format')
@@ -434,6 +881,34 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 	private renderConversionSettings(containerEl: HTMLElement): void {
 		const group = createSettingsGroup(containerEl, 'Remote image conversion', 'image-manager');
 
+		group.addSetting((setting) => {
+			setting
+				.setName('Download pasted image links')
+				.setDesc('When pasting or dropping a link to an image, download it and insert a local image. Links that do not serve an image paste as usual. Hold the shift key while pasting or dropping to insert the plain link.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.enableUrlPaste)
+						.onChange(async (value) => {
+							this.plugin.settings.enableUrlPaste = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Download images in pasted web content')
+				.setDesc('When pasting a section copied from a web page, convert it to Markdown and save its images to the vault (the original alt text becomes the display text)')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.enableHtmlPaste)
+						.onChange(async (value) => {
+							this.plugin.settings.enableHtmlPaste = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
 		group.addSetting((setting) => {
 			setting
 				.setName('Auto-convert remote images')
@@ -559,7 +1034,7 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 		group.addSetting((setting) => {
 			setting
 				.setName('Descriptive images')
-				.setDesc('Ask for image description, use as display text and kebab-case for filename (applies to note body insertions only, not properties)')
+				.setDesc('Ask for image description, use as display text and kebab-case (or the file name style) for filename (applies to note body insertions only, not properties)')
 				.addToggle((toggle) => {
 					toggle
 						.setValue(this.plugin.settings.enableDescriptiveImages)
@@ -586,14 +1061,34 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 
 		group.addSetting((setting) => {
 			setting
-				.setName('Duplicate number delimiter')
-				.setDesc('Character(s) between name and number for duplicates (e.g., "-" gives "image-1")')
+				.setName('Duplicate name pattern')
+				.setDesc('Name given when a file with the same name exists. Use {{name}} and {{n}}, or {{n:3}} to pad the number to 3 digits (e.g., "{{name}}-{{n:3}}" gives "image-002").')
 				.addText((text) => {
 					text
-						.setPlaceholder('-')
-						.setValue(this.plugin.settings.dupNumberDelimiter)
+						.setPlaceholder(DEFAULT_SETTINGS.dupNamePattern)
+						.setValue(this.plugin.settings.dupNamePattern)
+						.onChange(async (value) => {
+							// Needs one {{name}} and one {{n}}; anything else keeps the last valid pattern
+							if (isValidDuplicatePattern(value)) {
+								this.plugin.settings.dupNamePattern = value;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('File name style')
+				.setDesc('How words are separated in saved file names. Applies to renamed, auto-named and converted images.')
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption(FileNameStyle.Spaces, 'Keep spaces (my image)')
+						.addOption(FileNameStyle.Kebab, 'Kebab case (my-image)')
+						.addOption(FileNameStyle.Snake, 'Snake case (my_image)')
+						.setValue(this.plugin.settings.fileNameStyle)
 						.onChange(async (value) => {
-							this.plugin.settings.dupNumberDelimiter = value;
+							this.plugin.settings.fileNameStyle = value as FileNameStyle;
 							await this.plugin.saveSettings();
 						});
 				});
@@ -601,13 +1096,13 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 
 		group.addSetting((setting) => {
 			setting
-				.setName('Duplicate number at start')
-				.setDesc('Put the duplicate number at the start (e.g., "1-image" instead of "image-1")')
+				.setName('Lowercase file names')
+				.setDesc('Convert file names to lowercase')
 				.addToggle((toggle) => {
 					toggle
-						.setValue(this.plugin.settings.dupNumberAtStart)
+						.setValue(this.plugin.settings.fileNameLowercase)
 						.onChange(async (value) => {
-							this.plugin.settings.dupNumberAtStart = value;
+							this.plugin.settings.fileNameLowercase = value;
 							await this.plugin.saveSettings();
 						});
 				});
@@ -615,33 +1110,518 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 
 		group.addSetting((setting) => {
 			setting
-				.setName('Disable rename notice')
-				.setDesc('Do not show a notice after renaming an image')
+				.setName('Transliterate file names')
+				.setDesc('Replace letters such as "ü", "ß" and "ж" with plain letters (e.g., "über straße" becomes "uber strasse")')
 				.addToggle((toggle) => {
 					toggle
-						.setValue(this.plugin.settings.disableRenameNotice)
+						.setValue(this.plugin.settings.fileNameTransliterate)
 						.onChange(async (value) => {
-							this.plugin.settings.disableRenameNotice = value;
+							this.plugin.settings.fileNameTransliterate = value;
 							await this.plugin.saveSettings();
 						});
 				});
 		});
-	}
-
-	/**
-	 * Get the current device type
-	 */
-	private getCurrentDevice(): DeviceType {
-		if (Platform.isPhone) {
-			return DeviceType.Phone;
-		}
-		if (Platform.isTablet) {
-			return DeviceType.Tablet;
-		}
-		return DeviceType.Desktop;
-	}
 
-	/**
+		group.addSetting((setting) => {
+			setting
+				.setName('Convert ideographs to pinyin')
+				.setDesc('Write common simplified ideographs as toneless pinyin (e.g., "你好世界" becomes "ni hao shi jie"). Characters with several readings use the most common one.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.fileNameCjkPinyin)
+						.onChange(async (value) => {
+							this.plugin.settings.fileNameCjkPinyin = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Keep ideographic characters')
+				.setDesc('Keep characters such as "東京" or "서울" in file names. When off they are removed. Applies to characters not converted to pinyin.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.fileNameKeepCjk)
+						.onChange(async (value) => {
+							this.plugin.settings.fileNameKeepCjk = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Remove emoji from file names')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.fileNameStripEmoji)
+						.onChange(async (value) => {
+							this.plugin.settings.fileNameStripEmoji = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Maximum file name length')
+				.setDesc('Longer names are cut at a word boundary (0 for no limit)')
+				.addText((text) => {
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS.fileNameMaxLength))
+						.setValue(String(this.plugin.settings.fileNameMaxLength))
+						.onChange(async (value) => {
+							const num = parseInt(value, 10);
+							if (!isNaN(num) && num >= 0) {
+								this.plugin.settings.fileNameMaxLength = num;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Identical images')
+				.setDesc('What to do when an inserted image has the same content as an image already in the vault')
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption(DuplicateImageBehavior.Ask, 'Ask every time')
+						.addOption(DuplicateImageBehavior.Reuse, 'Link the existing image')
+						.addOption(DuplicateImageBehavior.Copy, 'Always save a copy')
+						.setValue(this.plugin.settings.duplicateImageBehavior)
+						.onChange(async (value) => {
+							this.plugin.settings.duplicateImageBehavior = value as DuplicateImageBehavior;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Disable rename notice')
+				.setDesc('Do not show a notice after renaming an image')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.disableRenameNotice)
+						.onChange(async (value) => {
+							this.plugin.settings.disableRenameNotice = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+	}
+
+	private renderOptimizationSettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Image optimization', 'image-manager');
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Optimize images before saving')
+				.setDesc('Re-encode incoming images to reduce their file size. SVG and animated images are saved as-is.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.enableOptimization)
+						.onChange(async (value) => {
+							this.plugin.settings.enableOptimization = value;
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+
+		if (!this.plugin.settings.enableOptimization) {
+			return;
+		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Output format')
+				.setDesc('Format to encode images to. If the platform cannot encode the chosen format, the original is kept.')
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption(OptimizeFormat.WebP, 'WEBP')
+						.addOption(OptimizeFormat.Avif, 'AVIF')
+						.addOption(OptimizeFormat.Jpeg, 'JPEG')
+						.addOption(OptimizeFormat.Original, 'Keep original format')
+						.setValue(this.plugin.settings.optimizeFormat)
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeFormat = value as OptimizeFormat;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Quality')
+				.setDesc('Encoding quality for lossy formats (1-100)')
+				.addSlider((slider) => {
+					slider
+						.setLimits(1, 100, 1)
+						.setValue(this.plugin.settings.optimizeQuality)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeQuality = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Keep original if smaller')
+				.setDesc('Save the original image when the optimized result would be the same size or larger')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.keepOriginalIfLarger)
+						.onChange(async (value) => {
+							this.plugin.settings.keepOriginalIfLarger = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Optimize pasted images')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.optimizeOnPaste)
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeOnPaste = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Optimize dropped images')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.optimizeOnDrop)
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeOnDrop = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Optimize images from the file picker')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.optimizeOnFilePicker)
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeOnFilePicker = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Optimize downloaded images')
+				.setDesc('Applies to remote image search and remote image conversion')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.optimizeOnRemoteDownload)
+						.onChange(async (value) => {
+							this.plugin.settings.optimizeOnRemoteDownload = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+	}
+
+	private renderResizeSettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Image resizing', 'image-manager');
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Limit image dimensions')
+				.setDesc('Downscale large images when they are inserted, keeping their aspect ratio. Images are never upscaled, and SVG and animated images are saved as-is.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.enableResize)
+						.onChange(async (value) => {
+							this.plugin.settings.enableResize = value;
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+
+		if (!this.plugin.settings.enableResize) {
+			return;
+		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Maximum width')
+				.setDesc('Maximum image width in pixels (0 for no limit)')
+				.addText((text) => {
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS.maxImageWidth))
+						.setValue(String(this.plugin.settings.maxImageWidth))
+						.onChange(async (value) => {
+							const num = parseInt(value, 10);
+							if (!isNaN(num) && num >= 0) {
+								this.plugin.settings.maxImageWidth = num;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Maximum height')
+				.setDesc('Maximum image height in pixels (0 for no limit)')
+				.addText((text) => {
+					text
+						.setPlaceholder(String(DEFAULT_SETTINGS.maxImageHeight))
+						.setValue(String(this.plugin.settings.maxImageHeight))
+						.onChange(async (value) => {
+							const num = parseInt(value, 10);
+							if (!isNaN(num) && num >= 0) {
+								this.plugin.settings.maxImageHeight = num;
+								await this.plugin.saveSettings();
+							}
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Per-folder limits')
+				.setDesc('Override the limits for specific attachment folders, one per line as "folder: widthxheight" (e.g., "assets/banners: 2400x1200"). Leave a side empty for no limit.')
+				.addTextArea((text) => {
+					text
+						.setPlaceholder('Assets/banners: 2400x1200')
+						.setValue(this.plugin.settings.resizeOverrides
+							.map((override) => `${override.folder}: ${override.maxWidth || ''}x${override.maxHeight || ''}`)
+							.join('\n'))
+						.onChange(async (value) => {
+							this.plugin.settings.resizeOverrides = this.parseResizeOverrides(value);
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+	}
+
+	private renderResponsiveSettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Responsive images', 'image-manager');
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Write width variants')
+				.setDesc('When an image is inserted into a supported file type, also save smaller copies for srcset markup on static sites. Images are never upscaled.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.enableResponsiveImages)
+						.onChange(async (value) => {
+							this.plugin.settings.enableResponsiveImages = value;
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+
+		if (!this.plugin.settings.enableResponsiveImages) {
+			return;
+		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Widths')
+				.setDesc('Variant widths in pixels, separated by commas')
+				.addText((text) => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.responsiveWidths.join(', '))
+						.setValue(this.plugin.settings.responsiveWidths.join(', '))
+						.onChange(async (value) => {
+							this.plugin.settings.responsiveWidths = this.parseList(value)
+								.map((width) => parseInt(width, 10))
+								.filter((width) => !isNaN(width) && width > 0);
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Variant name pattern')
+				.setDesc('File name of each variant, saved next to the image. Use {{name}} for the image name and {{width}} for the width.')
+				.addText((text) => {
+					text
+						.setValue(this.plugin.settings.responsiveNamePattern)
+						.onChange(async (value) => {
+							this.plugin.settings.responsiveNamePattern = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Insert')
+				.setDesc('What to insert into the note for an image with variants')
+				.addDropdown((dropdown) => {
+					dropdown
+						.addOption(ResponsiveSnippet.Link, 'Plain link')
+						.addOption(ResponsiveSnippet.Picture, 'Picture element with srcset')
+						.addOption(ResponsiveSnippet.Component, 'Custom component')
+						.setValue(this.plugin.settings.responsiveSnippet)
+						.onChange(async (value) => {
+							this.plugin.settings.responsiveSnippet = value as ResponsiveSnippet;
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+
+		if (this.plugin.settings.responsiveSnippet === ResponsiveSnippet.Link) {
+			return;
+		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Sizes')
+				.setDesc('Value of the sizes attribute, telling the browser how wide the image is displayed')
+				.addText((text) => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.responsiveSizes)
+						.setValue(this.plugin.settings.responsiveSizes)
+						.onChange(async (value) => {
+							this.plugin.settings.responsiveSizes = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		if (this.plugin.settings.responsiveSnippet !== ResponsiveSnippet.Component) {
+			return;
+		}
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Component template')
+				.setDesc('MDX inserted for the image. Available variables: {{src}}, {{srcset}}, {{sizes}}, {{alt}}, {{width}} and {{height}}.')
+				.addTextArea((text) => {
+					text
+						.setValue(this.plugin.settings.responsiveComponentTemplate)
+						.onChange(async (value) => {
+							this.plugin.settings.responsiveComponentTemplate = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+	}
+
+	private renderPrivacySettings(containerEl: HTMLElement): void {
+		const group = createSettingsGroup(containerEl, 'Privacy', 'image-manager');
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Strip image metadata')
+				.setDesc('Remove embedded metadata such as location and camera serial numbers from images before they are saved. Optimized and resized images keep only the fields chosen below, or no metadata at all when this is off.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.stripMetadata)
+						.onChange(async (value) => {
+							this.plugin.settings.stripMetadata = value;
+							await this.plugin.saveSettings();
+							this.refreshWithScrollPreserve(containerEl);
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Apply photo orientation')
+				.setDesc('Rotate photos that are stored sideways with an orientation tag, so they display upright everywhere (including published sites). Always done when the orientation is stripped from metadata.')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.bakeOrientation)
+						.onChange(async (value) => {
+							this.plugin.settings.bakeOrientation = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		if (!this.plugin.settings.stripMetadata) {
+			return;
+		}
+
+		const keepOptions: { field: MetadataField; name: string; desc: string }[] = [
+			{ field: MetadataField.Orientation, name: 'Keep orientation', desc: 'Keep the rotation flag so photos display upright' },
+			{ field: MetadataField.Copyright, name: 'Keep copyright and artist', desc: 'Keep the copyright notice and author name' },
+			{ field: MetadataField.Resolution, name: 'Keep resolution', desc: 'Keep the print resolution (DPI)' },
+		];
+
+		for (const option of keepOptions) {
+			group.addSetting((setting) => {
+				setting
+					.setName(option.name)
+					.setDesc(option.desc)
+					.addToggle((toggle) => {
+						toggle
+							.setValue(this.plugin.settings.keepMetadataFields.includes(option.field))
+							.onChange(async (value) => {
+								const fields = this.plugin.settings.keepMetadataFields.filter((field) => field !== option.field);
+								if (value) {
+									fields.push(option.field);
+								}
+								this.plugin.settings.keepMetadataFields = fields;
+								await this.plugin.saveSettings();
+							});
+					});
+			});
+		}
+	}
+
+	/**
+	 * Parse "folder: widthxheight" lines into resize overrides, skipping invalid lines
+	 */
+	private parseResizeOverrides(value: string): ResizeOverride[] {
+		const overrides: ResizeOverride[] = [];
+		for (const line of value.split('\n')) {
+			const match = line.match(/^(.+):\s*(\d*)\s*x\s*(\d*)\s*$/i);
+			if (!match) {
+				continue;
+			}
+			const folder = (match[1] ?? '').trim().replace(/^\/+|\/+$/g, '');
+			if (!folder) {
+				continue;
+			}
+			overrides.push({
+				folder,
+				maxWidth: parseInt(match[2] || '0', 10),
+				maxHeight: parseInt(match[3] || '0', 10),
+			});
+		}
+		return overrides;
+	}
+
+	/**
+	 * Get the current device type
+	 */
+	private getCurrentDevice(): DeviceType {
+		if (Platform.isPhone) {
+			return DeviceType.Phone;
+		}
+		if (Platform.isTablet) {
+			return DeviceType.Tablet;
+		}
+		return DeviceType.Desktop;
+	}
+
+	/**
 	 * Helper to preserve scroll position when re-rendering settings
 	 */
 	private refreshWithScrollPreserve(containerEl: HTMLElement): void {
@@ -1034,6 +2014,52 @@ export class ImageManagerSettingTab extends PluginSettingTab {
 				});
 		});
 
+		group.addSetting((setting) => {
+			setting
+				.setName('Clean up leftover temporary files')
+				.setDesc('At startup, offer to move temporary images left behind by interrupted inserts to trash')
+				.addToggle((toggle) => {
+					toggle
+						.setValue(this.plugin.settings.sweepTempFiles)
+						.onChange(async (value) => {
+							this.plugin.settings.sweepTempFiles = value;
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Orphaned images folder')
+				.setDesc('Folder the orphaned images view moves images to')
+				.addText((text) => {
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.orphanFolder)
+						.setValue(this.plugin.settings.orphanFolder)
+						.onChange(async (value) => {
+							this.plugin.settings.orphanFolder = value.trim().replace(/^\/+|\/+$/g, '');
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
+		group.addSetting((setting) => {
+			setting
+				.setName('Orphaned images whitelist')
+				.setDesc('Images never reported as orphaned, one path or glob pattern per line (e.g., "templates/**")')
+				.addTextArea((text) => {
+					text
+						.setValue(this.plugin.settings.orphanWhitelist.join('\n'))
+						.onChange(async (value) => {
+							this.plugin.settings.orphanWhitelist = value
+								.split('\n')
+								.map((entry) => entry.trim())
+								.filter((entry) => entry.length > 0);
+							await this.plugin.saveSettings();
+						});
+				});
+		});
+
 		group.addSetting((setting) => {
 			setting
 				.setName('Debug mode')
@@ -45,6 +45,16 @@ export enum PropertyLinkFormat {
 	Custom = 'custom',       // cover: "{image-url}" with custom format
 }
 
+/**
+ * How paths are written in inserted links
+ */
+export enum LinkPathStyle {
+	ObsidianDefault = 'obsidian', // Follow Obsidian's "New link format" (property paths are relative)
+	Relative = 'relative',        // ../assets/image.jpg
+	Absolute = 'absolute',        // /assets/image.jpg
+	Shortest = 'shortest',        // image.jpg, or a longer path when the name isn't unique
+}
+
 /**
  * Attachment location override options
  */
@@ -55,6 +65,138 @@ export enum AttachmentLocation {
 	VaultFolder = 'vault',         // Centralized vault folder
 }
 
+/**
+ * What to insert for an image with responsive width variants
+ */
+export enum ResponsiveSnippet {
+	Link = 'link',           // The usual link; variants are only written
+	Picture = 'picture',     // <picture> element with a srcset
+	Component = 'component', // Custom MDX component template
+}
+
+/**
+ * Where an incoming image came from
+ */
+export enum ImageSource {
+	Paste = 'paste',
+	Drop = 'drop',
+	FilePicker = 'picker',
+	Remote = 'remote',
+}
+
+/**
+ * Target format when optimizing images before saving
+ */
+export enum OptimizeFormat {
+	Original = 'original', // Re-encode in the incoming format
+	WebP = 'webp',
+	Avif = 'avif',
+	Jpeg = 'jpeg',
+}
+
+/**
+ * Maximum image dimensions for a specific attachment folder
+ */
+export interface ResizeOverride {
+	folder: string; // Attachment folder (vault path); applies to subfolders too
+	maxWidth: number; // 0 = no limit
+	maxHeight: number; // 0 = no limit
+}
+
+/**
+ * A non-image attachment type handled by the rename/location pipeline
+ */
+export interface AttachmentType {
+	name: string;
+	enabled: boolean;
+	extensions: string[]; // Lowercase, without the dot
+	mimeTypes: string[]; // Exact ("application/pdf") or wildcard ("audio/*")
+	nameTemplate: string; // Empty = use the image name template
+	folder: string; // Empty = attachment location; "./" prefix = relative to the note, otherwise a vault path
+}
+
+/**
+ * What an attachment routing rule matches on
+ */
+export enum RoutingMatch {
+	PathGlob = 'path',           // Note path glob ("blog/**")
+	Tag = 'tag',                 // Note tag, including nested tags ("#meeting")
+	Frontmatter = 'frontmatter', // "key: value", or "key" if the property is set
+	MimeType = 'mime',           // Attachment media type ("image/png", "image/*")
+}
+
+/**
+ * Sends attachments of matching notes or files to their own location
+ */
+export interface RoutingRule {
+	name: string;
+	enabled: boolean;
+	match: RoutingMatch;
+	pattern: string;
+	location: AttachmentLocation;
+	path: string; // Subfolder or vault folder; supports template variables
+}
+
+/**
+ * Word separators in saved file names
+ */
+export enum FileNameStyle {
+	Spaces = 'spaces', // Keep spaces; only characters invalid in file names are replaced
+	Kebab = 'kebab',   // my-image-name
+	Snake = 'snake',   // my_image_name
+}
+
+/**
+ * What to do when an inserted image is identical to one already in the vault
+ */
+export enum DuplicateImageBehavior {
+	Ask = 'ask',     // Ask whether to link the existing file or save a copy
+	Reuse = 'reuse', // Always link the existing file
+	Copy = 'copy',   // Always save a new copy (content is not checked)
+}
+
+/**
+ * Harmless metadata fields that can survive metadata stripping
+ */
+export enum MetadataField {
+	Orientation = 'orientation',
+	Copyright = 'copyright', // Copyright and artist
+	Resolution = 'resolution', // DPI
+}
+
+/**
+ * Shapes that can be drawn on an image
+ */
+export enum AnnotationTool {
+	Arrow = 'arrow',
+	Rectangle = 'rectangle',
+	Text = 'text',
+	Highlight = 'highlight',
+	Blur = 'blur', // Hides the area for privacy
+}
+
+/**
+ * A single annotation, in pixels of the original image
+ */
+export interface Annotation {
+	tool: AnnotationTool;
+	x1: number; // Start point (arrow tail, rectangle corner, text position)
+	y1: number;
+	x2: number; // End point (arrow head, opposite rectangle corner)
+	y2: number;
+	color: string;
+	text?: string; // Text labels only
+}
+
+/**
+ * Annotation sidecar stored next to an annotated image ("<name>.annotations.json")
+ */
+export interface AnnotationDocument {
+	version: number;
+	original: string; // File name of the unannotated copy, in the same folder
+	annotations: Annotation[];
+}
+
 /**
  * Device types for banner settings
  */
@@ -245,10 +387,18 @@ export interface ImageManagerSettings {
 	// General Settings
 	enableRenameOnPaste: boolean;
 	enableRenameOnDrop: boolean;
+	enableHtmlPaste: boolean; // Convert pasted web content to markdown and download its images
+	enableUrlPaste: boolean; // Download pasted/dropped image URLs (Shift keeps the plain URL)
 	imageNameTemplate: string;
 	attachmentLocation: AttachmentLocation;
 	customAttachmentPath: string;
-	
+	attachmentFolderKey: string; // Frontmatter key that overrides the attachment folder per note (empty = off)
+	attachmentTypes: AttachmentType[]; // Non-image files managed like images
+	routingRules: RoutingRule[]; // Checked in order before the attachment location; the first match wins
+	linkPathStyle: LinkPathStyle; // Paths in body and property links
+	moveAttachmentsWithNote: boolean; // Move a note's own images when it moves and its attachment folder is relative to it
+	renameImagesWithNote: boolean; // Offer to re-apply the name template to a note's own images when it is renamed
+
 	// Image Services
 	defaultProvider: ImageProvider;
 	unsplashProxyServer: string;
@@ -275,10 +425,46 @@ export interface ImageManagerSettings {
 	// Rename Options
 	showRenameDialog: boolean;
 	autoRename: boolean;
-	dupNumberDelimiter: string;
-	dupNumberAtStart: boolean;
+	dupNamePattern: string; // Name of duplicates, e.g. "{{name}}-{{n:3}}" gives "image-002"
 	disableRenameNotice: boolean;
+	duplicateImageBehavior: DuplicateImageBehavior;
 	enableDescriptiveImages: boolean; // Ask for description, use as display text (note body only)
+	fileNameStyle: FileNameStyle;
+	fileNameLowercase: boolean;
+	fileNameTransliterate: boolean; // ü → u, ß → ss, Cyrillic → Latin
+	fileNameCjkPinyin: boolean; // Common Chinese characters become toneless pinyin ("你好" → "ni hao")
+	fileNameKeepCjk: boolean; // Other CJK characters are kept as-is or removed
+	fileNameStripEmoji: boolean;
+	fileNameMaxLength: number; // 0 = no limit; longer names are cut at a word boundary
+	
+	// Image Optimization
+	enableOptimization: boolean;
+	optimizeFormat: OptimizeFormat;
+	optimizeQuality: number; // 1-100, used for lossy formats
+	keepOriginalIfLarger: boolean; // Discard the encoded result if it is not smaller
+	optimizeOnPaste: boolean;
+	optimizeOnDrop: boolean;
+	optimizeOnFilePicker: boolean;
+	optimizeOnRemoteDownload: boolean;
+	
+	// Image Resizing
+	enableResize: boolean;
+	maxImageWidth: number; // 0 = no limit
+	maxImageHeight: number; // 0 = no limit
+	resizeOverrides: ResizeOverride[];
+	bakeOrientation: boolean; // Rotate pixels to match the EXIF orientation tag
+	
+	// Responsive Images
+	enableResponsiveImages: boolean; // Write width variants for images inserted into supported files
+	responsiveWidths: number[];
+	responsiveNamePattern: string; // {{name}} and {{width}}
+	responsiveSnippet: ResponsiveSnippet;
+	responsiveSizes: string; // "sizes" attribute
+	responsiveComponentTemplate: string; // {{src}}, {{srcset}}, {{sizes}}, {{alt}}, {{width}}, {{height}}
+	
+	// Privacy
+	stripMetadata: boolean; // Remove EXIF/XMP/IPTC (GPS, camera serials) before saving
+	keepMetadataFields: MetadataField[];
 	
 	// Image Insertion Options (remote image attribution options)
 	insertSize: string; // Image size in markdown (e.g., "200" or "200x100")
@@ -291,9 +477,21 @@ export interface ImageManagerSettings {
 	
 	// Advanced
 	supportedExtensions: string[];
+	sweepTempFiles: boolean; // Offer to trash leftover temp-* files at startup
+	orphanFolder: string; // Where the orphaned images view moves images
+	orphanWhitelist: string[]; // Paths or glob patterns never reported as orphaned
 	debugMode: boolean;
 }
 
+/**
+ * Settings that turn names into file names
+ */
+export type FileNamePolicy = Pick<
+	ImageManagerSettings,
+	'fileNameStyle' | 'fileNameLowercase' | 'fileNameTransliterate' | 'fileNameCjkPinyin' | 'fileNameKeepCjk' |
+	'fileNameStripEmoji' | 'fileNameMaxLength'
+>;
+
 /**
  * Default settings
  */
@@ -301,10 +499,51 @@ export const DEFAULT_SETTINGS: ImageManagerSettings = {
 	// General Settings
 	enableRenameOnPaste: true,
 	enableRenameOnDrop: true,
+	enableHtmlPaste: false,
+	enableUrlPaste: true,
 	imageNameTemplate: '',
 	attachmentLocation: AttachmentLocation.ObsidianDefault,
 	customAttachmentPath: './assets',
-	
+	attachmentFolderKey: 'attachmentFolder',
+	attachmentTypes: [
+		{
+			name: 'PDF',
+			enabled: false,
+			extensions: ['pdf'],
+			mimeTypes: ['application/pdf'],
+			nameTemplate: '',
+			folder: '',
+		},
+		{
+			name: 'Audio',
+			enabled: false,
+			extensions: ['mp3', 'wav', 'm4a', 'ogg', 'flac', 'aac'],
+			mimeTypes: ['audio/*'],
+			nameTemplate: '',
+			folder: '',
+		},
+		{
+			name: 'Video',
+			enabled: false,
+			extensions: ['mp4', 'webm', 'mov', 'mkv', 'ogv'],
+			mimeTypes: ['video/*'],
+			nameTemplate: '',
+			folder: '',
+		},
+		{
+			name: 'Archives',
+			enabled: false,
+			extensions: ['zip', '7z', 'rar', 'gz', 'tar'],
+			mimeTypes: ['application/zip', 'application/x-zip-compressed', 'application/x-7z-compressed', 'application/vnd.rar', 'application/x-rar-compressed', 'application/gzip', 'application/x-tar'],
+			nameTemplate: '',
+			folder: '',
+		},
+	],
+	routingRules: [],
+	linkPathStyle: LinkPathStyle.ObsidianDefault,
+	moveAttachmentsWithNote: false,
+	renameImagesWithNote: false,
+
 	// Image Services
 	defaultProvider: ImageProvider.Unsplash,
 	unsplashProxyServer: '',
@@ -331,10 +570,46 @@ export const DEFAULT_SETTINGS: ImageManagerSettings = {
 	// Rename Options
 	showRenameDialog: true,
 	autoRename: false,
-	dupNumberDelimiter: '-',
-	dupNumberAtStart: false,
+	dupNamePattern: '{{name}}-{{n}}',
 	disableRenameNotice: false,
+	duplicateImageBehavior: DuplicateImageBehavior.Copy,
 	enableDescriptiveImages: false,
+	fileNameStyle: FileNameStyle.Spaces,
+	fileNameLowercase: false,
+	fileNameTransliterate: false,
+	fileNameCjkPinyin: false,
+	fileNameKeepCjk: true,
+	fileNameStripEmoji: false,
+	fileNameMaxLength: 0,
+	
+	// Image Optimization
+	enableOptimization: false,
+	optimizeFormat: OptimizeFormat.WebP,
+	optimizeQuality: 80,
+	keepOriginalIfLarger: true,
+	optimizeOnPaste: true,
+	optimizeOnDrop: true,
+	optimizeOnFilePicker: true,
+	optimizeOnRemoteDownload: true,
+	
+	// Image Resizing
+	enableResize: false,
+	maxImageWidth: 1600,
+	maxImageHeight: 1600,
+	resizeOverrides: [],
+	bakeOrientation: true,
+	
+	// Responsive Images
+	enableResponsiveImages: false,
+	responsiveWidths: [480, 960, 1600],
+	responsiveNamePattern: '{{name}}-{{width}}w',
+	responsiveSnippet: ResponsiveSnippet.Picture,
+	responsiveSizes: '100vw',
+	responsiveComponentTemplate: '<ResponsiveImage src="{{src}}" srcset="{{srcset}}" sizes="{{sizes}}" alt="{{alt}}" />',
+	
+	// Privacy
+	stripMetadata: false,
+	keepMetadataFields: [MetadataField.Orientation, MetadataField.Copyright],
 	
 	// Image Insertion Options (remote image attribution options)
 	insertSize: '', // Empty = no size specified
@@ -347,6 +622,9 @@ export const DEFAULT_SETTINGS: ImageManagerSettings = {
 	
 	// Advanced
 	supportedExtensions: ['md', 'mdx'],
+	sweepTempFiles: true,
+	orphanFolder: 'Orphaned images',
+	orphanWhitelist: [],
 	debugMode: false,
 };
 
@@ -376,6 +654,8 @@ export interface ProcessedImage {
 	path: string;
 	linkText: string;
 	success: boolean;
+	reused?: boolean; // Linked to an identical existing file instead of saving a new one
+	variants?: TFile[]; // Responsive width variants saved next to the file
 	error?: string;
 }
 
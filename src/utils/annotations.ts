@@ -0,0 +1,163 @@
+/**
+ * Annotation Utilities
+ * Sidecar file naming and drawing annotations onto a canvas
+ */
+
+import { normalizePath, TFile } from 'obsidian';
+import { Annotation, AnnotationTool } from '../types';
+import { createCanvas, getContext2d } from './image-canvas';
+import { getBaseName, getFolderPath } from './path';
+
+// Suffixes added to the annotated image's base name
+const SIDECAR_SUFFIX = '.annotations.json';
+const ORIGINAL_SUFFIX = '.original';
+
+/**
+ * Get the path of an image's annotation sidecar ("photo.png" -> "photo.annotations.json")
+ */
+export function getAnnotationSidecarPath(imagePath: string): string {
+	return joinFolder(getFolderPath(imagePath), `${getBaseName(imagePath)}${SIDECAR_SUFFIX}`);
+}
+
+/**
+ * Get the path of an image's unannotated copy ("photo.png" -> "photo.original.png")
+ * @param n - Number for when the default path is taken ("photo-1.original.png")
+ */
+export function getAnnotationOriginalPath(imagePath: string, n?: number): string {
+	const extension = imagePath.substring(imagePath.lastIndexOf('.') + 1);
+	const baseName = n ? `${getBaseName(imagePath)}-${n}` : getBaseName(imagePath);
+	return joinFolder(getFolderPath(imagePath), `${baseName}${ORIGINAL_SUFFIX}.${extension}`);
+}
+
+/**
+ * Resolve a file name stored in a sidecar against the annotated image's folder
+ */
+export function resolveAnnotationFile(imagePath: string, fileName: string): string {
+	return joinFolder(getFolderPath(imagePath), fileName);
+}
+
+/**
+ * Check whether a file is the unannotated copy kept for an annotated image
+ */
+export function isAnnotationOriginal(file: TFile): boolean {
+	return file.basename.endsWith(ORIGINAL_SUFFIX);
+}
+
+function joinFolder(folder: string, name: string): string {
+	return normalizePath(folder ? `${folder}/${name}` : name);
+}
+
+/**
+ * Draw annotations over an image already drawn on the context
+ * @param source - The unannotated image, read by the blur tool
+ */
+export function drawAnnotations(
+	ctx: CanvasRenderingContext2D,
+	source: CanvasImageSource,
+	annotations: Annotation[],
+	width: number,
+	height: number
+): void {
+	// Stroke and text sizes scale with the image so annotations read the same at any resolution
+	const size = Math.max(width, height);
+	const lineWidth = Math.max(2, Math.round(size / 300));
+
+	for (const annotation of annotations) {
+		ctx.save();
+		ctx.strokeStyle = annotation.color;
+		ctx.fillStyle = annotation.color;
+		ctx.lineWidth = lineWidth;
+		ctx.lineCap = 'round';
+		ctx.lineJoin = 'round';
+
+		const rect = getAnnotationRect(annotation);
+		switch (annotation.tool) {
+			case AnnotationTool.Arrow:
+				drawArrow(ctx, annotation, lineWidth);
+				break;
+			case AnnotationTool.Rectangle:
+				ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+				break;
+			case AnnotationTool.Highlight:
+				ctx.globalAlpha = 0.35;
+				ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+				break;
+			case AnnotationTool.Blur:
+				pixelate(ctx, source, rect, Math.max(8, Math.round(size / 80)));
+				break;
+			case AnnotationTool.Text:
+				drawText(ctx, annotation, Math.max(14, Math.round(size / 40)));
+				break;
+		}
+		ctx.restore();
+	}
+}
+
+/**
+ * Get the normalized rectangle spanned by an annotation's two points
+ */
+function getAnnotationRect(annotation: Annotation): { x: number; y: number; width: number; height: number } {
+	return {
+		x: Math.min(annotation.x1, annotation.x2),
+		y: Math.min(annotation.y1, annotation.y2),
+		width: Math.abs(annotation.x2 - annotation.x1),
+		height: Math.abs(annotation.y2 - annotation.y1),
+	};
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, annotation: Annotation, lineWidth: number): void {
+	const angle = Math.atan2(annotation.y2 - annotation.y1, annotation.x2 - annotation.x1);
+	const headLength = lineWidth * 5;
+
+	ctx.beginPath();
+	ctx.moveTo(annotation.x1, annotation.y1);
+	ctx.lineTo(annotation.x2, annotation.y2);
+	ctx.stroke();
+
+	ctx.beginPath();
+	ctx.moveTo(annotation.x2, annotation.y2);
+	ctx.lineTo(
+		annotation.x2 - headLength * Math.cos(angle - Math.PI / 6),
+		annotation.y2 - headLength * Math.sin(angle - Math.PI / 6)
+	);
+	ctx.lineTo(
+		annotation.x2 - headLength * Math.cos(angle + Math.PI / 6),
+		annotation.y2 - headLength * Math.sin(angle + Math.PI / 6)
+	);
+	ctx.closePath();
+	ctx.fill();
+}
+
+function drawText(ctx: CanvasRenderingContext2D, annotation: Annotation, fontSize: number): void {
+	if (!annotation.text) {
+		return;
+	}
+
+	// Dark outline keeps light colors readable on any background
+	ctx.font = `bold ${fontSize}px sans-serif`;
+	ctx.textBaseline = 'top';
+	ctx.lineWidth = Math.max(2, Math.round(fontSize / 6));
+	ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+	ctx.strokeText(annotation.text, annotation.x1, annotation.y1);
+	ctx.fillText(annotation.text, annotation.x1, annotation.y1);
+}
+
+/**
+ * Replace an area with large blocks so the hidden content cannot be recovered
+ */
+function pixelate(
+	ctx: CanvasRenderingContext2D,
+	source: CanvasImageSource,
+	rect: { x: number; y: number; width: number; height: number },
+	blockSize: number
+): void {
+	if (rect.width < 1 || rect.height < 1) {
+		return;
+	}
+
+	const small = createCanvas(rect.width / blockSize, rect.height / blockSize);
+	getContext2d(small).drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, small.width, small.height);
+
+	ctx.imageSmoothingEnabled = false;
+	ctx.drawImage(small, 0, 0, small.width, small.height, rect.x, rect.y, rect.width, rect.height);
+}
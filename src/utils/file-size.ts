@@ -0,0 +1,22 @@
+/**
+ * File size formatting
+ */
+
+/**
+ * Format a byte count for display (e.g., "1.4 MB")
+ */
+export function formatFileSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+
+	const units = ['KB', 'MB', 'GB'];
+	let value = bytes / 1024;
+	let unitIndex = 0;
+	while (value >= 1024 && unitIndex < units.length - 1) {
+		value /= 1024;
+		unitIndex++;
+	}
+
+	return `${value.toFixed(value < 10 ? 1 : 0)} ${units[unitIndex]}`;
+}
@@ -0,0 +1,37 @@
+/**
+ * File Type Utilities
+ * Extension and MIME type groups for images and other attachments
+ */
+
+export const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'tiff', 'avif'];
+
+// Formats Obsidian can play or display inline with ![[...]]
+export const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'ogg', 'flac', '3gp', 'webm'];
+export const VIDEO_EXTENSIONS = ['mp4', 'webm', 'ogv', 'mov', 'mkv'];
+export const PDF_EXTENSIONS = ['pdf'];
+
+/**
+ * Check a MIME type against a pattern, either exact ("application/pdf") or a wildcard ("audio/*")
+ */
+export function matchesMimeType(mimeType: string, pattern: string): boolean {
+	const type = mimeType.toLowerCase().split(';')[0]?.trim() ?? '';
+	const expected = pattern.toLowerCase().trim();
+	if (!type || !expected) {
+		return false;
+	}
+	if (expected.endsWith('/*')) {
+		return type.startsWith(expected.slice(0, -1));
+	}
+	return type === expected;
+}
+
+/**
+ * Check if an extension can be embedded with ![[...]] (images, PDFs, audio and video)
+ */
+export function isEmbeddableExtension(extension: string): boolean {
+	const ext = extension.toLowerCase();
+	return IMAGE_EXTENSIONS.includes(ext) ||
+		PDF_EXTENSIONS.includes(ext) ||
+		AUDIO_EXTENSIONS.includes(ext) ||
+		VIDEO_EXTENSIONS.includes(ext);
+}
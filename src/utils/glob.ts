@@ -0,0 +1,35 @@
+/**
+ * Glob Utilities
+ * Match vault paths against simple glob patterns
+ */
+
+/**
+ * Convert a glob pattern to a regular expression
+ * Supports "**" (any path, including "/"), "*" (anything but "/") and "?" (one character)
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i] ?? '';
+		if (char === '*' && pattern[i + 1] === '*') {
+			// "**/" also matches no folders at all
+			const slash = pattern[i + 2] === '/';
+			source += slash ? '(?:.*/)?' : '.*';
+			i += slash ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Check whether a vault path matches a glob pattern
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+	return globToRegExp(pattern.trim().replace(/^\/+/, '')).test(path);
+}
@@ -0,0 +1,14 @@
+/**
+ * Hash Utilities
+ * Content hashing for detecting identical files
+ */
+
+/**
+ * Compute the SHA-256 hash of bytes as a hex string
+ */
+export async function sha256(data: ArrayBuffer): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(digest))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
@@ -0,0 +1,63 @@
+/**
+ * Canvas Image Utilities
+ * Decode image bytes into a canvas and encode a canvas back into bytes
+ */
+
+/**
+ * Decode image bytes into an ImageBitmap
+ * The browser applies any EXIF orientation while decoding
+ */
+export async function decodeImage(data: ArrayBuffer, mimeType: string): Promise<ImageBitmap> {
+	const blob = new Blob([data], { type: mimeType });
+	return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+}
+
+/**
+ * Create a canvas of the given size
+ */
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+	const canvas = activeDocument.createElement('canvas');
+	canvas.width = Math.max(1, Math.round(width));
+	canvas.height = Math.max(1, Math.round(height));
+	return canvas;
+}
+
+/**
+ * Get a 2D context, throwing if the platform cannot provide one
+ */
+export function getContext2d(canvas: HTMLCanvasElement): CanvasRenderingContext2D {
+	const ctx = canvas.getContext('2d');
+	if (!ctx) {
+		throw new Error('Canvas 2D context is not available');
+	}
+	return ctx;
+}
+
+/**
+ * Encode a canvas into bytes
+ * Returns null if the platform cannot encode the requested MIME type
+ * (browsers silently fall back to PNG for unsupported types)
+ * @param quality Quality between 0 and 1 for lossy formats
+ */
+export function encodeCanvas(
+	canvas: HTMLCanvasElement,
+	mimeType: string,
+	quality?: number
+): Promise<ArrayBuffer | null> {
+	return new Promise((resolve, reject) => {
+		canvas.toBlob((blob) => {
+			if (!blob || blob.type !== mimeType) {
+				resolve(null);
+				return;
+			}
+			blob.arrayBuffer().then(resolve, reject);
+		}, mimeType, quality);
+	});
+}
+
+/**
+ * Whether a MIME type can hold transparency
+ */
+export function supportsAlpha(mimeType: string): boolean {
+	return mimeType !== 'image/jpeg';
+}
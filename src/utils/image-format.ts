@@ -0,0 +1,124 @@
+/**
+ * Image Format Utilities
+ * Byte-level inspection of image containers (no decoding)
+ */
+
+/**
+ * Check whether image bytes contain an animation
+ * Covers GIF (multiple frames), APNG (acTL chunk) and animated WebP (VP8X flag)
+ */
+export function isAnimatedImage(data: ArrayBuffer, extension: string): boolean {
+	const bytes = new Uint8Array(data);
+	switch (extension.toLowerCase()) {
+		case 'gif':
+			return countGifFrames(bytes) > 1;
+		case 'png':
+			return hasPngChunk(bytes, 'acTL');
+		case 'webp':
+			return isAnimatedWebp(bytes);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Count the image frames in a GIF by walking its block structure
+ */
+function countGifFrames(bytes: Uint8Array): number {
+	// Header (6) + logical screen descriptor (7)
+	if (bytes.length < 13 || readAscii(bytes, 0, 3) !== 'GIF') {
+		return 0;
+	}
+
+	let offset = 13;
+	const screenFlags = bytes[10] ?? 0;
+	if (screenFlags & 0x80) {
+		offset += 3 * (1 << ((screenFlags & 0x07) + 1));
+	}
+
+	let frames = 0;
+	while (offset < bytes.length) {
+		const blockType = bytes[offset];
+		if (blockType === 0x2c) {
+			// Image descriptor
+			frames++;
+			if (frames > 1) {
+				return frames;
+			}
+			const imageFlags = bytes[offset + 9] ?? 0;
+			offset += 10;
+			if (imageFlags & 0x80) {
+				offset += 3 * (1 << ((imageFlags & 0x07) + 1));
+			}
+			// LZW minimum code size, then data sub-blocks
+			offset = skipGifSubBlocks(bytes, offset + 1);
+		} else if (blockType === 0x21) {
+			// Extension: introducer + label, then sub-blocks
+			offset = skipGifSubBlocks(bytes, offset + 2);
+		} else {
+			// Trailer (0x3b) or corrupt data
+			break;
+		}
+	}
+
+	return frames;
+}
+
+/**
+ * Skip a sequence of GIF data sub-blocks, returning the offset after the terminator
+ */
+function skipGifSubBlocks(bytes: Uint8Array, offset: number): number {
+	while (offset < bytes.length) {
+		const size = bytes[offset] ?? 0;
+		offset += 1;
+		if (size === 0) {
+			break;
+		}
+		offset += size;
+	}
+	return offset;
+}
+
+/**
+ * Check whether a PNG contains a chunk of the given type before the image data
+ */
+function hasPngChunk(bytes: Uint8Array, type: string): boolean {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let offset = 8; // PNG signature
+	while (offset + 8 <= bytes.length) {
+		const length = view.getUint32(offset);
+		const chunkType = readAscii(bytes, offset + 4, 4);
+		if (chunkType === type) {
+			return true;
+		}
+		if (chunkType === 'IDAT' || chunkType === 'IEND') {
+			return false;
+		}
+		offset += 12 + length;
+	}
+	return false;
+}
+
+/**
+ * Check the animation flag of an extended (VP8X) WebP
+ */
+function isAnimatedWebp(bytes: Uint8Array): boolean {
+	if (bytes.length < 21 || readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP') {
+		return false;
+	}
+	if (readAscii(bytes, 12, 4) !== 'VP8X') {
+		return false;
+	}
+	return ((bytes[20] ?? 0) & 0x02) !== 0;
+}
+
+/**
+ * Read an ASCII string from bytes
+ */
+export function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+	let result = '';
+	for (let i = offset; i < offset + length && i < bytes.length; i++) {
+		result += String.fromCharCode(bytes[i] ?? 0);
+	}
+	return result;
+}
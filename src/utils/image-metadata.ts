@@ -0,0 +1,619 @@
+/**
+ * Image Metadata Utilities
+ * Byte-level reading and removal of EXIF, XMP and IPTC metadata in JPEG, PNG and WebP files
+ * without re-encoding the image data
+ */
+
+import { readAscii } from './image-format';
+
+/**
+ * EXIF tags that can be kept when stripping metadata
+ */
+export const EXIF_TAGS = {
+	Orientation: 0x0112,
+	Artist: 0x013b,
+	Copyright: 0x8298,
+	XResolution: 0x011a,
+	YResolution: 0x011b,
+	ResolutionUnit: 0x0128,
+} as const;
+
+const EXIF_HEADER = 'Exif\0\0';
+
+// Byte size of one component for each TIFF field type (index = type id)
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+interface TiffEntry {
+	tag: number;
+	type: number;
+	count: number;
+	value: Uint8Array; // Raw value bytes in the TIFF's byte order
+}
+
+interface TiffIfd {
+	littleEndian: boolean;
+	entries: TiffEntry[];
+}
+
+/**
+ * Remove metadata from image bytes
+ * EXIF is rebuilt with only the tags in keepTags (from the main image directory);
+ * XMP, IPTC and comments are always removed. ICC color profiles are preserved.
+ * Returns null if the format is unsupported or there was no metadata to remove
+ */
+export function stripImageMetadata(data: ArrayBuffer, extension: string, keepTags: number[]): ArrayBuffer | null {
+	const bytes = new Uint8Array(data);
+	switch (extension.toLowerCase()) {
+		case 'jpg':
+		case 'jpeg':
+			return stripJpeg(bytes, keepTags);
+		case 'png':
+			return stripPng(bytes, keepTags);
+		case 'webp':
+			return stripWebp(bytes, keepTags);
+		default:
+			return null;
+	}
+}
+
+/**
+ * Remove metadata segments from a JPEG
+ */
+function stripJpeg(bytes: Uint8Array, keepTags: number[]): ArrayBuffer | null {
+	if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+		return null;
+	}
+
+	const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+	let changed = false;
+	let offset = 2;
+
+	while (offset + 4 <= bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			// Not a marker - corrupt or unexpected layout, leave the file alone
+			return null;
+		}
+
+		const marker = bytes[offset + 1] ?? 0;
+		if (marker === 0xff) {
+			// Fill byte
+			offset++;
+			continue;
+		}
+		if (marker === 0xda || marker === 0xd9) {
+			// Start of scan / end of image: the rest is image data
+			parts.push(bytes.subarray(offset));
+			offset = bytes.length;
+			break;
+		}
+		if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			// Standalone markers without a length
+			parts.push(bytes.subarray(offset, offset + 2));
+			offset += 2;
+			continue;
+		}
+
+		const segmentLength = readUint16(bytes, offset + 2, false);
+		const segmentEnd = offset + 2 + segmentLength;
+		const payload = bytes.subarray(offset + 4, segmentEnd);
+
+		if (marker === 0xe1) {
+			// APP1: EXIF or XMP
+			changed = true;
+			if (readAscii(payload, 0, EXIF_HEADER.length) === EXIF_HEADER) {
+				const filtered = filterExif(payload.subarray(EXIF_HEADER.length), keepTags);
+				if (filtered) {
+					parts.push(buildJpegSegment(0xe1, concatBytes([asciiBytes(EXIF_HEADER), filtered])));
+				}
+			}
+		} else if (marker === 0xed || marker === 0xfe) {
+			// APP13 (Photoshop/IPTC) and comments
+			changed = true;
+		} else {
+			parts.push(bytes.subarray(offset, segmentEnd));
+		}
+
+		offset = segmentEnd;
+	}
+
+	if (offset < bytes.length) {
+		parts.push(bytes.subarray(offset));
+	}
+
+	return changed ? toArrayBuffer(concatBytes(parts)) : null;
+}
+
+/**
+ * Remove metadata chunks from a PNG
+ */
+function stripPng(bytes: Uint8Array, keepTags: number[]): ArrayBuffer | null {
+	const signature = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+	if (!signature.every((value, i) => bytes[i] === value)) {
+		return null;
+	}
+
+	// Text keywords that carry the same information as kept EXIF tags
+	const keepKeywords: string[] = [];
+	if (keepTags.includes(EXIF_TAGS.Copyright)) keepKeywords.push('Copyright');
+	if (keepTags.includes(EXIF_TAGS.Artist)) keepKeywords.push('Author');
+
+	const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+	let changed = false;
+	let offset = 8;
+
+	while (offset + 12 <= bytes.length) {
+		const length = readUint32(bytes, offset, false);
+		const type = readAscii(bytes, offset + 4, 4);
+		const chunkEnd = offset + 12 + length;
+		const chunkData = bytes.subarray(offset + 8, offset + 8 + length);
+
+		if (type === 'eXIf') {
+			changed = true;
+			const filtered = filterExif(chunkData, keepTags);
+			if (filtered) {
+				parts.push(buildPngChunk('eXIf', filtered));
+			}
+		} else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+			const keyword = readAscii(chunkData, 0, Math.max(0, chunkData.indexOf(0)));
+			if (keepKeywords.includes(keyword)) {
+				parts.push(bytes.subarray(offset, chunkEnd));
+			} else {
+				changed = true;
+			}
+		} else {
+			parts.push(bytes.subarray(offset, chunkEnd));
+		}
+
+		offset = chunkEnd;
+	}
+
+	return changed ? toArrayBuffer(concatBytes(parts)) : null;
+}
+
+/**
+ * Remove metadata chunks from an extended (VP8X) WebP
+ */
+function stripWebp(bytes: Uint8Array, keepTags: number[]): ArrayBuffer | null {
+	if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP') {
+		return null;
+	}
+	// Simple (VP8/VP8L) files cannot contain metadata
+	if (readAscii(bytes, 12, 4) !== 'VP8X') {
+		return null;
+	}
+
+	const chunks: Uint8Array[] = [];
+	let vp8xChunk: Uint8Array | null = null;
+	let hasExif = false;
+	let changed = false;
+	let offset = 12;
+
+	while (offset + 8 <= bytes.length) {
+		const fourcc = readAscii(bytes, offset, 4);
+		const size = readUint32(bytes, offset + 4, true);
+		const chunkEnd = offset + 8 + size + (size % 2);
+		const chunkData = bytes.subarray(offset + 8, offset + 8 + size);
+
+		if (fourcc === 'EXIF') {
+			changed = true;
+			// Some writers keep the JPEG-style "Exif\0\0" prefix
+			const tiff = readAscii(chunkData, 0, EXIF_HEADER.length) === EXIF_HEADER
+				? chunkData.subarray(EXIF_HEADER.length)
+				: chunkData;
+			const filtered = filterExif(tiff, keepTags);
+			if (filtered) {
+				chunks.push(buildWebpChunk('EXIF', filtered));
+				hasExif = true;
+			}
+		} else if (fourcc === 'XMP ') {
+			changed = true;
+		} else {
+			// Copy so the VP8X flags can be updated in place
+			const chunk = bytes.slice(offset, chunkEnd);
+			if (fourcc === 'VP8X') {
+				vp8xChunk = chunk;
+			}
+			chunks.push(chunk);
+		}
+
+		offset = chunkEnd;
+	}
+
+	if (!changed) {
+		return null;
+	}
+
+	if (vp8xChunk) {
+		// Flags byte: bit 2 = XMP, bit 3 = EXIF
+		let flags = (vp8xChunk[8] ?? 0) & ~0x04;
+		flags = hasExif ? flags | 0x08 : flags & ~0x08;
+		vp8xChunk[8] = flags;
+	}
+
+	return toArrayBuffer(buildWebp(chunks));
+}
+
+/**
+ * Copy the given EXIF tags from one image into another, e.g. to carry kept fields over to a re-encoded copy
+ * Any metadata the target already has is removed first.
+ * Returns null if the source has none of the tags or either format is unsupported
+ */
+export function copyExifTags(
+	source: ArrayBuffer,
+	sourceExtension: string,
+	target: ArrayBuffer,
+	targetExtension: string,
+	tags: number[]
+): ArrayBuffer | null {
+	const tiff = findExifBlock(new Uint8Array(source), sourceExtension);
+	const filtered = tiff ? filterExif(tiff, tags) : null;
+	if (!filtered) {
+		return null;
+	}
+
+	const bytes = new Uint8Array(stripImageMetadata(target, targetExtension, []) ?? target);
+	switch (targetExtension.toLowerCase()) {
+		case 'jpg':
+		case 'jpeg':
+			return insertJpegExif(bytes, filtered);
+		case 'png':
+			return insertPngExif(bytes, filtered);
+		case 'webp':
+			return insertWebpExif(bytes, filtered);
+		default:
+			return null;
+	}
+}
+
+/**
+ * Add an EXIF segment to a JPEG, after the JFIF header if there is one
+ */
+function insertJpegExif(bytes: Uint8Array, tiff: Uint8Array): ArrayBuffer | null {
+	if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+		return null;
+	}
+
+	let offset = 2;
+	if (bytes[2] === 0xff && bytes[3] === 0xe0 && bytes.length >= 6) {
+		offset = 4 + readUint16(bytes, 4, false);
+	}
+
+	const segment = buildJpegSegment(0xe1, concatBytes([asciiBytes(EXIF_HEADER), tiff]));
+	return toArrayBuffer(concatBytes([bytes.subarray(0, offset), segment, bytes.subarray(offset)]));
+}
+
+/**
+ * Add an eXIf chunk to a PNG, right after the header chunk
+ */
+function insertPngExif(bytes: Uint8Array, tiff: Uint8Array): ArrayBuffer | null {
+	if (bytes.length < 33 || readAscii(bytes, 12, 4) !== 'IHDR') {
+		return null;
+	}
+
+	const headerEnd = 8 + 12 + readUint32(bytes, 8, false);
+	return toArrayBuffer(concatBytes([bytes.subarray(0, headerEnd), buildPngChunk('eXIf', tiff), bytes.subarray(headerEnd)]));
+}
+
+/**
+ * Add an EXIF chunk to a WebP, converting a simple (VP8/VP8L) file to the extended format
+ */
+function insertWebpExif(bytes: Uint8Array, tiff: Uint8Array): ArrayBuffer | null {
+	if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WEBP' || bytes.length < 30) {
+		return null;
+	}
+
+	const fourcc = readAscii(bytes, 12, 4);
+	const exifChunk = buildWebpChunk('EXIF', tiff);
+
+	if (fourcc === 'VP8X') {
+		const vp8xEnd = 12 + 8 + readUint32(bytes, 16, true);
+		const vp8xChunk = bytes.slice(12, vp8xEnd);
+		vp8xChunk[8] = (vp8xChunk[8] ?? 0) | 0x08; // EXIF flag
+		return toArrayBuffer(buildWebp([vp8xChunk, bytes.subarray(vp8xEnd), exifChunk]));
+	}
+
+	// Read the canvas size (and for lossless, whether there is alpha) from the bitstream header
+	const data = bytes.subarray(20);
+	let width: number;
+	let height: number;
+	let alpha = false;
+	if (fourcc === 'VP8 ' && data[3] === 0x9d && data[4] === 0x01 && data[5] === 0x2a) {
+		width = readUint16(data, 6, true) & 0x3fff;
+		height = readUint16(data, 8, true) & 0x3fff;
+	} else if (fourcc === 'VP8L' && data[0] === 0x2f) {
+		const bits = readUint32(data, 1, true);
+		width = (bits & 0x3fff) + 1;
+		height = ((bits >>> 14) & 0x3fff) + 1;
+		alpha = ((bits >>> 28) & 1) === 1;
+	} else {
+		return null;
+	}
+
+	const vp8x = new Uint8Array(10);
+	vp8x[0] = 0x08 | (alpha ? 0x10 : 0); // EXIF and alpha flags
+	writeUint24(vp8x, 4, width - 1);
+	writeUint24(vp8x, 7, height - 1);
+	return toArrayBuffer(buildWebp([buildWebpChunk('VP8X', vp8x), bytes.subarray(12), exifChunk]));
+}
+
+/**
+ * Read the EXIF orientation (1-8) of an image
+ * Returns 1 (upright) if the image has no orientation tag
+ */
+export function readExifOrientation(data: ArrayBuffer, extension: string): number {
+	const tiff = findExifBlock(new Uint8Array(data), extension);
+	const ifd = tiff ? parseTiffIfd0(tiff) : null;
+	const entry = ifd?.entries.find((e) => e.tag === EXIF_TAGS.Orientation);
+	if (!ifd || !entry || entry.value.length < 2) {
+		return 1;
+	}
+
+	const orientation = readUint16(entry.value, 0, ifd.littleEndian);
+	return orientation >= 1 && orientation <= 8 ? orientation : 1;
+}
+
+/**
+ * Locate the TIFF (EXIF) block inside a JPEG, PNG or WebP
+ */
+function findExifBlock(bytes: Uint8Array, extension: string): Uint8Array | null {
+	switch (extension.toLowerCase()) {
+		case 'jpg':
+		case 'jpeg': {
+			let offset = 2;
+			while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+				const marker = bytes[offset + 1] ?? 0;
+				if (marker === 0xda || marker === 0xd9) {
+					break;
+				}
+				const segmentLength = readUint16(bytes, offset + 2, false);
+				const payload = bytes.subarray(offset + 4, offset + 2 + segmentLength);
+				if (marker === 0xe1 && readAscii(payload, 0, EXIF_HEADER.length) === EXIF_HEADER) {
+					return payload.subarray(EXIF_HEADER.length);
+				}
+				offset += 2 + segmentLength;
+			}
+			return null;
+		}
+		case 'png': {
+			let offset = 8;
+			while (offset + 12 <= bytes.length) {
+				const length = readUint32(bytes, offset, false);
+				if (readAscii(bytes, offset + 4, 4) === 'eXIf') {
+					return bytes.subarray(offset + 8, offset + 8 + length);
+				}
+				offset += 12 + length;
+			}
+			return null;
+		}
+		case 'webp': {
+			if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 12, 4) !== 'VP8X') {
+				return null;
+			}
+			let offset = 12;
+			while (offset + 8 <= bytes.length) {
+				const size = readUint32(bytes, offset + 4, true);
+				if (readAscii(bytes, offset, 4) === 'EXIF') {
+					const chunkData = bytes.subarray(offset + 8, offset + 8 + size);
+					return readAscii(chunkData, 0, EXIF_HEADER.length) === EXIF_HEADER
+						? chunkData.subarray(EXIF_HEADER.length)
+						: chunkData;
+				}
+				offset += 8 + size + (size % 2);
+			}
+			return null;
+		}
+		default:
+			return null;
+	}
+}
+
+/**
+ * Rebuild a TIFF (EXIF) block keeping only the given tags of the main image directory
+ * Returns null if none of the tags are present
+ */
+export function filterExif(tiff: Uint8Array, keepTags: number[]): Uint8Array | null {
+	const ifd = parseTiffIfd0(tiff);
+	if (!ifd) {
+		return null;
+	}
+
+	const entries = ifd.entries.filter((entry) => keepTags.includes(entry.tag));
+	if (entries.length === 0) {
+		return null;
+	}
+
+	return buildTiff({ littleEndian: ifd.littleEndian, entries });
+}
+
+/**
+ * Parse the first image directory (IFD0) of a TIFF block
+ */
+export function parseTiffIfd0(tiff: Uint8Array): TiffIfd | null {
+	if (tiff.length < 8) {
+		return null;
+	}
+
+	const byteOrder = readAscii(tiff, 0, 2);
+	if (byteOrder !== 'II' && byteOrder !== 'MM') {
+		return null;
+	}
+	const littleEndian = byteOrder === 'II';
+
+	const ifdOffset = readUint32(tiff, 4, littleEndian);
+	if (ifdOffset + 2 > tiff.length) {
+		return null;
+	}
+
+	const entryCount = readUint16(tiff, ifdOffset, littleEndian);
+	const entries: TiffEntry[] = [];
+	for (let i = 0; i < entryCount; i++) {
+		const entryOffset = ifdOffset + 2 + i * 12;
+		if (entryOffset + 12 > tiff.length) {
+			break;
+		}
+
+		const tag = readUint16(tiff, entryOffset, littleEndian);
+		const type = readUint16(tiff, entryOffset + 2, littleEndian);
+		const count = readUint32(tiff, entryOffset + 4, littleEndian);
+		const typeSize = TIFF_TYPE_SIZES[type] ?? 0;
+		const byteLength = typeSize * count;
+		if (typeSize === 0) {
+			continue;
+		}
+
+		// Values up to 4 bytes are stored inline, larger ones at an offset
+		const valueOffset = byteLength <= 4
+			? entryOffset + 8
+			: readUint32(tiff, entryOffset + 8, littleEndian);
+		if (valueOffset + byteLength > tiff.length) {
+			continue;
+		}
+
+		entries.push({ tag, type, count, value: tiff.slice(valueOffset, valueOffset + byteLength) });
+	}
+
+	return { littleEndian, entries };
+}
+
+/**
+ * Serialize a single image directory into a TIFF block
+ */
+function buildTiff(ifd: TiffIfd): Uint8Array {
+	const entries = [...ifd.entries].sort((a, b) => a.tag - b.tag);
+	const ifdSize = 2 + entries.length * 12 + 4;
+	const dataSize = entries.reduce((sum, entry) => {
+		return entry.value.length > 4 ? sum + entry.value.length + (entry.value.length % 2) : sum;
+	}, 0);
+
+	const out = new Uint8Array(8 + ifdSize + dataSize);
+	const le = ifd.littleEndian;
+	out.set(asciiBytes(le ? 'II' : 'MM'), 0);
+	writeUint16(out, 2, 42, le);
+	writeUint32(out, 4, 8, le);
+	writeUint16(out, 8, entries.length, le);
+
+	let dataOffset = 8 + ifdSize;
+	entries.forEach((entry, i) => {
+		const entryOffset = 10 + i * 12;
+		writeUint16(out, entryOffset, entry.tag, le);
+		writeUint16(out, entryOffset + 2, entry.type, le);
+		writeUint32(out, entryOffset + 4, entry.count, le);
+		if (entry.value.length <= 4) {
+			out.set(entry.value, entryOffset + 8);
+		} else {
+			writeUint32(out, entryOffset + 8, dataOffset, le);
+			out.set(entry.value, dataOffset);
+			dataOffset += entry.value.length + (entry.value.length % 2);
+		}
+	});
+	// Next IFD offset stays 0 (no thumbnail directory)
+
+	return out;
+}
+
+function buildJpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+	const segment = new Uint8Array(4 + payload.length);
+	segment[0] = 0xff;
+	segment[1] = marker;
+	writeUint16(segment, 2, payload.length + 2, false);
+	segment.set(payload, 4);
+	return segment;
+}
+
+function buildPngChunk(type: string, data: Uint8Array): Uint8Array {
+	const chunk = new Uint8Array(12 + data.length);
+	writeUint32(chunk, 0, data.length, false);
+	chunk.set(asciiBytes(type), 4);
+	chunk.set(data, 8);
+	writeUint32(chunk, 8 + data.length, crc32(chunk.subarray(4, 8 + data.length)), false);
+	return chunk;
+}
+
+function buildWebpChunk(fourcc: string, data: Uint8Array): Uint8Array {
+	const chunk = new Uint8Array(8 + data.length + (data.length % 2));
+	chunk.set(asciiBytes(fourcc), 0);
+	writeUint32(chunk, 4, data.length, true);
+	chunk.set(data, 8);
+	return chunk;
+}
+
+/**
+ * Wrap WebP chunks in a RIFF container
+ */
+function buildWebp(chunks: Uint8Array[]): Uint8Array {
+	const body = concatBytes(chunks);
+	const header = new Uint8Array(12);
+	header.set(asciiBytes('RIFF'), 0);
+	writeUint32(header, 4, body.length + 4, true);
+	header.set(asciiBytes('WEBP'), 8);
+	return concatBytes([header, body]);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 as used by PNG chunks
+ */
+function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) {
+				c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			}
+			crcTable[n] = c >>> 0;
+		}
+	}
+
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) {
+		crc = (crcTable[(crc ^ (bytes[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function readUint16(bytes: Uint8Array, offset: number, littleEndian: boolean): number {
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint16(offset, littleEndian);
+}
+
+export function readUint32(bytes: Uint8Array, offset: number, littleEndian: boolean): number {
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).getUint32(offset, littleEndian);
+}
+
+function writeUint16(bytes: Uint8Array, offset: number, value: number, littleEndian: boolean): void {
+	new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).setUint16(offset, value, littleEndian);
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number, littleEndian: boolean): void {
+	new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).setUint32(offset, value, littleEndian);
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+	bytes[offset] = value & 0xff;
+	bytes[offset + 1] = (value >>> 8) & 0xff;
+	bytes[offset + 2] = (value >>> 16) & 0xff;
+}
+
+function asciiBytes(text: string): Uint8Array {
+	const out = new Uint8Array(text.length);
+	for (let i = 0; i < text.length; i++) {
+		out[i] = text.charCodeAt(i) & 0xff;
+	}
+	return out;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const total = parts.reduce((sum, part) => sum + part.length, 0);
+	const out = new Uint8Array(total);
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+	return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
@@ -0,0 +1,48 @@
+/**
+ * Image Preview Utilities
+ * Preview images in modals from a vault file or from bytes that have not been saved yet
+ */
+
+import { App, TFile } from 'obsidian';
+
+/**
+ * An incoming file that is kept in memory until its name is confirmed
+ */
+export interface PendingImage {
+	data: ArrayBuffer;
+	extension: string;
+	mimeType: string;
+	folder: string; // Folder the file will be saved in
+}
+
+/**
+ * Image shown in a modal: an existing vault file or a pending one
+ */
+export type PreviewImage = TFile | PendingImage;
+
+/**
+ * Get a displayable URL for an image
+ * Pending images get a Blob URL that must be released with revokePreviewUrl
+ */
+export function createPreviewUrl(app: App, image: PreviewImage): string {
+	if (image instanceof TFile) {
+		return app.vault.getResourcePath(image);
+	}
+	return URL.createObjectURL(new Blob([image.data], { type: image.mimeType }));
+}
+
+/**
+ * Release a URL created by createPreviewUrl
+ */
+export function revokePreviewUrl(url: string): void {
+	if (url.startsWith('blob:')) {
+		URL.revokeObjectURL(url);
+	}
+}
+
+/**
+ * Get the folder an image is (or will be) saved in
+ */
+export function getPreviewFolder(image: PreviewImage): string {
+	return image instanceof TFile ? image.parent?.path ?? '' : image.folder;
+}
@@ -0,0 +1,109 @@
+/**
+ * Image Transform Utilities
+ * Canvas-based crop, 90° rotation and flipping
+ */
+
+import { createCanvas, encodeCanvas, getContext2d } from './image-canvas';
+import { isAnimatedImage } from './image-format';
+
+// Vector images and formats the canvas cannot decode
+const UNEDITABLE_EXTENSIONS = ['svg', 'tif', 'tiff'];
+
+/**
+ * Clockwise rotation in degrees
+ */
+export type Rotation = 0 | 90 | 180 | 270;
+
+/**
+ * Crop rectangle in pixels of the rotated and flipped image
+ */
+export interface CropRect {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Edits applied to an image: rotation and flips first, then the crop
+ */
+export interface ImageTransform {
+	rotation: Rotation;
+	flipH: boolean; // Mirror left-right as displayed
+	flipV: boolean; // Mirror top-bottom as displayed
+	crop: CropRect | null;
+}
+
+/**
+ * Check whether image bytes can be edited on a canvas without losing content
+ * Animated images are excluded since only their first frame would be kept
+ */
+export function isEditableImage(data: ArrayBuffer, extension: string): boolean {
+	return !UNEDITABLE_EXTENSIONS.includes(extension.toLowerCase()) && !isAnimatedImage(data, extension);
+}
+
+/**
+ * Check whether a transform leaves the image unchanged
+ */
+export function isIdentityTransform(transform: ImageTransform): boolean {
+	return transform.rotation === 0 && !transform.flipH && !transform.flipV && !transform.crop;
+}
+
+/**
+ * Draw an image rotated and flipped onto a new canvas (the crop is not applied)
+ */
+export function drawRotated(
+	source: CanvasImageSource,
+	width: number,
+	height: number,
+	transform: ImageTransform
+): HTMLCanvasElement {
+	const sideways = transform.rotation === 90 || transform.rotation === 270;
+	const canvas = createCanvas(sideways ? height : width, sideways ? width : height);
+	const ctx = getContext2d(canvas);
+
+	// Flip in display space, then rotate the source around the center
+	ctx.translate(canvas.width / 2, canvas.height / 2);
+	ctx.scale(transform.flipH ? -1 : 1, transform.flipV ? -1 : 1);
+	ctx.rotate((transform.rotation * Math.PI) / 180);
+	ctx.drawImage(source, -width / 2, -height / 2, width, height);
+	return canvas;
+}
+
+/**
+ * Crop a canvas returned by drawRotated
+ */
+export function cropCanvas(canvas: HTMLCanvasElement, crop: CropRect | null): HTMLCanvasElement {
+	if (!crop) {
+		return canvas;
+	}
+
+	const cropped = createCanvas(crop.width, crop.height);
+	getContext2d(cropped).drawImage(
+		canvas,
+		crop.x, crop.y, crop.width, crop.height,
+		0, 0, cropped.width, cropped.height
+	);
+	return cropped;
+}
+
+/**
+ * Encode an edited canvas in the original type, or PNG if that type cannot be encoded
+ * @param quality Quality between 0 and 1 for lossy formats
+ */
+export async function encodeTransformed(
+	canvas: HTMLCanvasElement,
+	mimeType: string,
+	quality?: number
+): Promise<{ data: ArrayBuffer; mimeType: string }> {
+	const encoded = await encodeCanvas(canvas, mimeType, quality);
+	if (encoded) {
+		return { data: encoded, mimeType };
+	}
+
+	const png = await encodeCanvas(canvas, 'image/png');
+	if (!png) {
+		throw new Error('Could not encode the edited image');
+	}
+	return { data: png, mimeType: 'image/png' };
+}
@@ -0,0 +1,65 @@
+/**
+ * Image URL Utilities
+ * Detecting and verifying remote image URLs
+ */
+
+import { requestUrl } from 'obsidian';
+
+// Known non-image embed domains (videos, audio)
+const NON_IMAGE_DOMAINS = [
+	'youtube.com',
+	'www.youtube.com',
+	'youtu.be',
+	'm.youtube.com',
+	'youtube-nocookie.com',
+	'www.youtube-nocookie.com',
+	'vimeo.com',
+	'www.vimeo.com',
+	'spotify.com',
+	'open.spotify.com',
+	'soundcloud.com',
+	'www.soundcloud.com',
+];
+
+/**
+ * Check if a URL is external (http/https)
+ */
+export function isExternalUrl(url: string): boolean {
+	try {
+		const parsed = new URL(url);
+		return ['http:', 'https:'].includes(parsed.protocol);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Check if a URL should be considered as a possible image
+ * Returns false for known non-image embed domains (YouTube, etc.)
+ * This is a preliminary filter - actual image verification happens via HEAD request
+ */
+export function isImageUrlCandidate(url: string): boolean {
+	try {
+		const hostname = new URL(url).hostname.toLowerCase();
+		return !NON_IMAGE_DOMAINS.some(domain => hostname === domain || hostname.endsWith('.' + domain));
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Verify if a URL actually serves an image by checking Content-Type header
+ * Uses HEAD request to avoid downloading non-image content
+ */
+export async function verifyImageUrl(url: string): Promise<boolean> {
+	try {
+		const response = await requestUrl({ url, method: 'HEAD' });
+		const contentType = response.headers['content-type']?.toLowerCase() ?? '';
+
+		// Check if Content-Type starts with 'image/'
+		return contentType.startsWith('image/');
+	} catch {
+		// On error (network issues, CORS, etc.), return false to skip this URL
+		return false;
+	}
+}
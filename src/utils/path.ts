@@ -0,0 +1,65 @@
+/**
+ * Path Utilities
+ * Vault path helpers for relative links
+ */
+
+import { normalizePath } from 'obsidian';
+
+/**
+ * Get the folder part of a vault path ('' for the vault root)
+ */
+export function getFolderPath(path: string): string {
+	const index = path.lastIndexOf('/');
+	return index === -1 ? '' : path.substring(0, index);
+}
+
+/**
+ * Get the file name of a vault path without its extension
+ */
+export function getBaseName(path: string): string {
+	const name = path.substring(path.lastIndexOf('/') + 1);
+	const dot = name.lastIndexOf('.');
+	return dot > 0 ? name.substring(0, dot) : name;
+}
+
+/**
+ * Resolve a relative path (with ./ and ../ segments) against a vault folder
+ * Returns null if the path climbs above the vault root
+ */
+export function resolveRelativePath(fromFolder: string, relativePath: string): string | null {
+	const segments = fromFolder ? fromFolder.split('/') : [];
+	for (const segment of relativePath.split('/')) {
+		if (segment === '' || segment === '.') {
+			continue;
+		}
+		if (segment === '..') {
+			if (segments.length === 0) {
+				return null;
+			}
+			segments.pop();
+		} else {
+			segments.push(segment);
+		}
+	}
+	return normalizePath(segments.join('/'));
+}
+
+/**
+ * Get the relative path from a vault folder to a vault path (e.g., "../assets/image.png")
+ */
+export function getRelativePath(fromFolder: string, toPath: string): string {
+	const fromSegments = fromFolder ? fromFolder.split('/') : [];
+	const toSegments = toPath.split('/');
+
+	let common = 0;
+	while (
+		common < fromSegments.length &&
+		common < toSegments.length - 1 &&
+		fromSegments[common] === toSegments[common]
+	) {
+		common++;
+	}
+
+	const up = fromSegments.slice(common).map(() => '..');
+	return [...up, ...toSegments.slice(common)].join('/');
+}
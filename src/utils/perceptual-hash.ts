@@ -0,0 +1,67 @@
+/**
+ * Perceptual Hash Utilities
+ * Difference hash (dHash) for finding visually similar images
+ */
+
+import { createCanvas, decodeImage, getContext2d } from './image-canvas';
+
+/**
+ * Perceptual hash of an image along with its pixel dimensions
+ */
+export interface PerceptualHash {
+	hash: string; // 64-bit dHash as 16 hex characters
+	width: number;
+	height: number;
+}
+
+// Set bits per hex digit
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Compute the dHash of image bytes
+ * The image is reduced to 9x8 grayscale and each bit records whether a pixel
+ * is brighter than its right neighbour, so scaling and re-compression barely change it
+ */
+export async function computeDHash(data: ArrayBuffer, mimeType: string): Promise<PerceptualHash> {
+	const bitmap = await decodeImage(data, mimeType);
+	const { width, height } = bitmap;
+
+	const canvas = createCanvas(9, 8);
+	const ctx = getContext2d(canvas);
+	ctx.imageSmoothingQuality = 'high';
+	ctx.fillStyle = '#ffffff';
+	ctx.fillRect(0, 0, 9, 8);
+	ctx.drawImage(bitmap, 0, 0, 9, 8);
+	bitmap.close();
+
+	const pixels = ctx.getImageData(0, 0, 9, 8).data;
+	const gray = (x: number, y: number): number => {
+		const i = (y * 9 + x) * 4;
+		return 0.299 * (pixels[i] ?? 0) + 0.587 * (pixels[i + 1] ?? 0) + 0.114 * (pixels[i + 2] ?? 0);
+	};
+
+	let hash = '';
+	for (let y = 0; y < 8; y++) {
+		let nibble = 0;
+		for (let x = 0; x < 8; x++) {
+			nibble = (nibble << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+			if (x % 4 === 3) {
+				hash += nibble.toString(16);
+				nibble = 0;
+			}
+		}
+	}
+
+	return { hash, width, height };
+}
+
+/**
+ * Count the differing bits between two hashes (0 = visually identical)
+ */
+export function hammingDistance(a: string, b: string): number {
+	let distance = 0;
+	for (let i = 0; i < a.length; i++) {
+		distance += NIBBLE_BITS[parseInt(a.charAt(i), 16) ^ parseInt(b.charAt(i), 16)] ?? 0;
+	}
+	return distance;
+}
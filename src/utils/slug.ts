@@ -0,0 +1,124 @@
+/**
+ * File Name Slugs
+ * Turns names into file names following the file name policy (style, case, transliteration, pinyin, length)
+ */
+
+import { FileNamePolicy, FileNameStyle } from '../types';
+import { getPinyin } from './pinyin';
+
+// Characters that don't decompose into a base letter plus accents (those are handled by NFKD)
+const TRANSLITERATIONS: Record<string, string> = {
+	'ß': 'ss', 'æ': 'ae', 'œ': 'oe', 'ø': 'o', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ł': 'l', 'ı': 'i', 'ħ': 'h', 'ŋ': 'ng',
+	'а': 'a', 'б': 'b', 'в': 'v', 'г': 'g', 'ґ': 'g', 'д': 'd', 'е': 'e', 'ё': 'e', 'є': 'ye', 'ж': 'zh', 'з': 'z',
+	'и': 'i', 'і': 'i', 'ї': 'yi', 'й': 'y', 'к': 'k', 'л': 'l', 'м': 'm', 'н': 'n', 'о': 'o', 'п': 'p', 'р': 'r',
+	'с': 's', 'т': 't', 'у': 'u', 'ф': 'f', 'х': 'kh', 'ц': 'ts', 'ч': 'ch', 'ш': 'sh', 'щ': 'shch', 'ъ': '',
+	'ы': 'y', 'ь': '', 'э': 'e', 'ю': 'yu', 'я': 'ya',
+};
+
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}]|\u200D|\uFE0E|\uFE0F|\u20E3/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303F]/gu;
+const INVALID_PATTERN = /[\\/:*?"<>|]/g;
+
+/**
+ * Turn a name into a file name (without extension) following the policy
+ * Applying it to its own result changes nothing
+ */
+export function slugifyFileName(name: string, policy: FileNamePolicy): string {
+	let result = name;
+
+	if (policy.fileNameStripEmoji) {
+		result = result.replace(EMOJI_PATTERN, ' ');
+	}
+	if (policy.fileNameTransliterate) {
+		result = transliterate(result);
+	}
+	if (policy.fileNameCjkPinyin) {
+		result = toPinyin(result);
+	}
+	if (!policy.fileNameKeepCjk) {
+		result = result.replace(CJK_PATTERN, ' ');
+	}
+	if (policy.fileNameLowercase) {
+		result = result.toLowerCase();
+	}
+
+	switch (policy.fileNameStyle) {
+		case FileNameStyle.Kebab:
+			result = joinWords(result, '-');
+			break;
+		case FileNameStyle.Snake:
+			result = joinWords(result, '_');
+			break;
+		case FileNameStyle.Spaces:
+		default:
+			result = result
+				.replace(INVALID_PATTERN, '-')
+				.replace(/\s+/g, ' ')
+				.replace(/^\.+/, '')
+				.replace(/\.+$/, '')
+				.trim();
+			break;
+	}
+
+	return truncateAtWord(result, policy.fileNameMaxLength);
+}
+
+/**
+ * Replace accented and non-Latin letters with Latin ones (ü → u, ß → ss, ж → zh)
+ */
+function transliterate(name: string): string {
+	const mapped = Array.from(name, (char) => {
+		const lower = char.toLowerCase();
+		const replacement = TRANSLITERATIONS[lower];
+		if (replacement === undefined) {
+			return char;
+		}
+		// Keep the case of the first letter ("Ж" → "Zh")
+		return char !== lower && replacement ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+	}).join('');
+
+	return mapped.normalize('NFKD').replace(/\p{M}/gu, '');
+}
+
+/**
+ * Replace common Chinese characters with their pinyin as separate words ("你好世界" → "ni hao shi jie")
+ * Characters missing from the table are left for the CJK setting to keep or remove
+ */
+function toPinyin(name: string): string {
+	return Array.from(name, (char) => {
+		const reading = getPinyin(char);
+		return reading ? ` ${reading} ` : char;
+	}).join('').replace(/ {2,}/g, ' ').trim();
+}
+
+/**
+ * Keep letters and numbers, joining the words with the separator
+ */
+function joinWords(name: string, separator: string): string {
+	return name
+		.replace(/['’]/g, '') // "don't" → "dont"
+		.split(/[^\p{L}\p{M}\p{N}]+/u)
+		.filter((word) => word)
+		.join(separator);
+}
+
+/**
+ * Shorten a name to a maximum length, cutting at the last word boundary when there is one
+ */
+function truncateAtWord(name: string, maxLength: number): string {
+	const chars = Array.from(name);
+	if (maxLength <= 0 || chars.length <= maxLength) {
+		return name;
+	}
+
+	let cut = chars.slice(0, maxLength).join('');
+	const next = chars[maxLength] ?? '';
+	if (!/[\s_-]/.test(next)) {
+		const boundary = Math.max(cut.lastIndexOf(' '), cut.lastIndexOf('-'), cut.lastIndexOf('_'));
+		// A single long word is cut mid-word rather than dropped
+		if (boundary > 0) {
+			cut = cut.substring(0, boundary);
+		}
+	}
+	return cut.replace(/[\s._-]+$/, '');
+}
@@ -58,6 +58,51 @@ export function renderTemplate(
 	return result;
 }
 
+/**
+ * Render a folder path template (e.g., "assets/{{fileName}}" or "{{DATE:YYYY/MM}}")
+ * Variable values are sanitized so they can't add folders or climb out of the path;
+ * slashes from the template itself and from date formats are kept
+ */
+export function renderFolderTemplate(
+	template: string,
+	variables: NameTemplateVariables,
+	frontmatter?: Record<string, unknown>
+): string {
+	const safeVariables: NameTemplateVariables = {
+		...variables,
+		fileName: sanitizeFolderSegment(variables.fileName),
+		dirName: sanitizeFolderSegment(variables.dirName),
+		imageNameKey: sanitizeFolderSegment(variables.imageNameKey ?? ''),
+		firstHeading: sanitizeFolderSegment(variables.firstHeading ?? ''),
+	};
+
+	let safeFrontmatter: Record<string, unknown> | undefined;
+	if (frontmatter) {
+		safeFrontmatter = {};
+		for (const [key, value] of Object.entries(frontmatter)) {
+			safeFrontmatter[key] = typeof value === 'string' ? sanitizeFolderSegment(value) : value;
+		}
+	}
+
+	// Empty variables would leave empty segments ("assets//images")
+	return renderTemplate(template, safeVariables, safeFrontmatter)
+		.split('/')
+		.map((segment) => segment.trim())
+		.filter((segment, index) => segment !== '' || index === 0)
+		.join('/');
+}
+
+/**
+ * Make a variable value safe to use as a single folder name
+ */
+function sanitizeFolderSegment(value: string): string {
+	return value
+		.replace(/[\\/:*?"<>|#^[\]]/g, '-')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.replace(/^\.+|\.+$/g, '');
+}
+
 /**
  * Format a date using a simple format string
  * Supports: YYYY, YY, MM, DD, M, D
@@ -134,6 +179,62 @@ export function isTemplateMeaningful(result: string, delimiter: string): boolean
 	return result.replace(meaninglessRegex, '') !== '';
 }
 
+const DUPLICATE_TOKEN_PATTERN = /(\{\{name\}\}|\{\{n(?::\d+)?\}\})/;
+
+/**
+ * Check that a duplicate name pattern has one {{name}}, one {{n}} (or {{n:width}})
+ * and no characters that can't be in a file name
+ */
+export function isValidDuplicatePattern(pattern: string): boolean {
+	const names = pattern.match(/\{\{name\}\}/g)?.length ?? 0;
+	const numbers = pattern.match(/\{\{n(?::\d+)?\}\}/g)?.length ?? 0;
+	return names === 1 && numbers === 1 && !/[\\/:*?"<>|]/.test(getDuplicateSeparators(pattern));
+}
+
+/**
+ * Render a duplicate name, e.g. "{{name}}-{{n:3}}" with "image" and 2 gives "image-002"
+ */
+export function renderDuplicateName(pattern: string, name: string, n: number): string {
+	return pattern
+		.replace(/\{\{n(?::(\d+))?\}\}/g, (_, width?: string) => String(n).padStart(width ? parseInt(width, 10) : 0, '0'))
+		.replace(/\{\{name\}\}/g, () => name);
+}
+
+/**
+ * Split a name rendered from a duplicate pattern into the name and number
+ * Returns null if the name doesn't follow the pattern
+ */
+export function parseDuplicateName(pattern: string, fileName: string): { name: string; n: number } | null {
+	const parts = pattern.split(DUPLICATE_TOKEN_PATTERN);
+	const groups: string[] = [];
+	const source = parts.map((part) => {
+		if (part === '{{name}}') {
+			groups.push('name');
+			return '(.+)';
+		}
+		if (DUPLICATE_TOKEN_PATTERN.test(part)) {
+			groups.push('n');
+			return '(\\d+)';
+		}
+		return escapeRegExp(part);
+	}).join('');
+
+	const match = fileName.match(new RegExp(`^${source}$`, 'u'));
+	if (!match) {
+		return null;
+	}
+	const name = match[groups.indexOf('name') + 1];
+	const n = match[groups.indexOf('n') + 1];
+	return name && n ? { name, n: parseInt(n, 10) } : null;
+}
+
+/**
+ * The literal text of a duplicate pattern (e.g. "-" for "{{name}}-{{n}}")
+ */
+export function getDuplicateSeparators(pattern: string): string {
+	return pattern.replace(new RegExp(DUPLICATE_TOKEN_PATTERN.source, 'g'), '');
+}
+
 /**
  * Escape special regex characters
  */